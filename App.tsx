@@ -4,70 +4,83 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Grid, TileData, BuildingType, CityStats, NewsItem } from './types';
-import { GRID_SIZE, BUILDINGS, TICK_RATE_MS, INITIAL_MONEY, LAND_COST, LAND_SELL } from './constants';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { AISettings, BuildingType, GameSpeed, GridPoint, MapOptions, MapOverlay, NewsItem, Scenario, SimAction, SimNotice, SimState } from './types';
+import { CLOCK_STEP_MS } from './constants';
 import IsoMap from './components/IsoMap';
 import UIOverlay from './components/UIOverlay';
 import StartScreen from './components/StartScreen';
-import { generateNewsEvent } from './services/geminiService';
-
-// Initialize grid with ownership, river, and rail
-const createInitialGrid = (): Grid => {
-  const grid: Grid = [];
-  const center = Math.floor(GRID_SIZE / 2);
-  const ownedRadius = 2; // Central 5x5 area is owned
-
-  for (let y = 0; y < GRID_SIZE; y++) {
-    const row: TileData[] = [];
-    
-    // River generation (runs West-East with sine wave)
-    const riverY = Math.floor(center + Math.sin(y * 0.4) * 2.5);
-
-    for (let x = 0; x < GRID_SIZE; x++) {
-      let isOwned = Math.abs(x - center) <= ownedRadius && Math.abs(y - center) <= ownedRadius;
-      const isRiver = Math.abs(x - riverY) < 1.5; // Width of river
-      
-      const dist = Math.sqrt(Math.pow(x-center, 2) + Math.pow(y-center, 2));
-      const basePrice = 5000;
-      const randomVariance = Math.floor(Math.random() * 5000);
-      const plotPrice = basePrice + randomVariance + Math.floor(dist * 500);
-
-      row.push({ 
-        x, 
-        y, 
-        buildingType: BuildingType.None, 
-        owned: isOwned,
-        isWater: isRiver,
-        isRail: false, // Rail must be built now
-        landPrice: plotPrice
-      });
-    }
-    grid.push(row);
-  }
-  return grid;
-};
+import GameOverScreen from './components/GameOverScreen';
+import ScenarioResultsScreen from './components/ScenarioResultsScreen';
+import { getAIProvider, loadAISettings, saveAISettings } from './services/aiService';
+import { CitySnapshot, SaveData, createSave, exportSave, exportStatsCsv, loadUndoDepth, saveUndoDepth, writeAutosave, writeSlot } from './services/saveService';
+import { createRng, randomSeed } from './simulation/rng';
+import { createInitialState } from './simulation/state';
+import { DEFAULT_MAP_PRESET, getMapPreset } from './simulation/mapgen';
+import { actionForTool, applyAction, describeAction, isUndoable, planDrag } from './simulation/actions';
+import { History, createHistory, diffStates, recordEntry, redo, setHistoryDepth, undo } from './simulation/history';
+import { tick } from './simulation/tick';
+import { goalProgress } from './simulation/advisor';
+import { getUtilities } from './simulation/utilities';
+import { advanceClock } from './simulation/clock';
+import { inspectTile } from './simulation/inspect';
+import { createScenarioState } from './simulation/scenarios';
+import { lockedTools } from './simulation/milestones';
 
 function App() {
   // --- Game State ---
   const [gameStarted, setGameStarted] = useState(false);
+  const [cityName, setCityName] = useState('My City');
 
-  const [grid, setGrid] = useState<Grid>(createInitialGrid);
-  const [stats, setStats] = useState<CityStats>({ money: INITIAL_MONEY, population: 0, day: 1 });
+  const [mapPresetId, setMapPresetId] = useState(DEFAULT_MAP_PRESET.id);
+  const [mapSeed, setMapSeed] = useState(randomSeed);
+  const [mapOptions, setMapOptions] = useState<MapOptions>(DEFAULT_MAP_PRESET.options);
+  const [sim, setSim] = useState<SimState>(() => createInitialState(mapSeed, DEFAULT_MAP_PRESET.options));
   const [selectedTool, setSelectedTool] = useState<BuildingType>(BuildingType.Road);
   const [timeOfDay, setTimeOfDay] = useState(0); // 0 to 1 cycle
+  const [speed, setSpeed] = useState<GameSpeed>(1);
+  const [history, setHistory] = useState<History>(() => createHistory(loadUndoDepth()));
+  const [overlay, setOverlay] = useState<MapOverlay>('none');
+  const [inspected, setInspected] = useState<GridPoint | null>(null);
+  const { grid, stats } = sim;
   
   // --- AI State ---
   const [newsFeed, setNewsFeed] = useState<NewsItem[]>([]);
+  const [goalStatus, setGoalStatus] = useState<'idle' | 'loading' | 'failed'>('idle');
+  const [aiSettings, setAISettings] = useState<AISettings>(loadAISettings);
   
-  // Refs for accessing state inside intervals without dependencies
-  const gridRef = useRef(grid);
-  const statsRef = useRef(stats);
-  const tickCounter = useRef(0);
+  // Refs for accessing state inside intervals without dependencies.
+  // simRef is written synchronously by commitSim so actions and ticks never read a stale city.
+  const simRef = useRef(sim);
+  const rngRef = useRef(createRng(sim.rngState));
+  const historyRef = useRef(history);
+  const newsFeedRef = useRef(newsFeed);
+  const timeOfDayRef = useRef(timeOfDay);
+  const speedRef = useRef(speed);
+  const resumeSpeedRef = useRef<GameSpeed>(1); // Speed to return to when unpausing
+  const aiProviderRef = useRef(getAIProvider(aiSettings));
 
   // Sync refs
-  useEffect(() => { gridRef.current = grid; }, [grid]);
-  useEffect(() => { statsRef.current = stats; }, [stats]);
+  useEffect(() => { newsFeedRef.current = newsFeed; }, [newsFeed]);
+  useEffect(() => { timeOfDayRef.current = timeOfDay; }, [timeOfDay]);
+
+  const commitSim = useCallback((next: SimState) => {
+    simRef.current = next;
+    setSim(next);
+  }, []);
+
+  const commitHistory = useCallback((next: History) => {
+    historyRef.current = next;
+    setHistory(next);
+  }, []);
+
+  // Replaces the whole city, e.g. on new game or load
+  const resetSim = useCallback((next: SimState) => {
+    rngRef.current = createRng(next.rngState);
+    commitSim(next);
+    commitHistory(createHistory(historyRef.current.depth));
+    setInspected(null);
+  }, [commitSim, commitHistory]);
 
   // --- AI Logic Wrappers ---
 
@@ -75,214 +88,260 @@ function App() {
     setNewsFeed(prev => [...prev.slice(-12), item]); // Keep last few
   }, []);
 
+  const addNotices = useCallback((notices: SimNotice[]) => {
+    notices.forEach(notice => addNewsItem({ id: Date.now().toString() + Math.random(), ...notice }));
+  }, [addNewsItem]);
+
+  const handleAISettingsChange = useCallback((settings: AISettings) => {
+    aiProviderRef.current = getAIProvider(settings);
+    setAISettings(settings);
+    saveAISettings(settings);
+    // A goal that failed with the old backend may succeed with the new one
+    setGoalStatus(status => (status === 'failed' ? 'idle' : status));
+  }, []);
+
   const fetchNews = useCallback(async () => {
-    // chance to fetch news per tick
-    if (Math.random() > 0.15) return; 
-    const news = await generateNewsEvent(statsRef.current, null);
+    const news = await aiProviderRef.current.generateNewsEvent(simRef.current.stats, null);
     if (news) addNewsItem(news);
   }, [addNewsItem]);
 
 
-  // --- Initial Setup ---
+  // --- Persistence ---
+
+  const getSnapshot = useCallback((): CitySnapshot => ({
+    sim: simRef.current,
+    newsFeed: newsFeedRef.current,
+    timeOfDay: timeOfDayRef.current,
+  }), []);
+
+  // Autosave once per in-game day and whenever the tab is hidden or closed
   useEffect(() => {
     if (!gameStarted) return;
+    writeAutosave(cityName, getSnapshot());
+  }, [gameStarted, stats.day, cityName, getSnapshot]);
 
-    addNewsItem({ id: Date.now().toString(), text: "Welcome to POPLU CITY. Terrain generation complete.", type: 'positive' });
-    
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [gameStarted]);
+  useEffect(() => {
+    if (!gameStarted) return;
+    const save = () => writeAutosave(cityName, getSnapshot());
+    const onVisibility = () => { if (document.visibilityState === 'hidden') save(); };
+    window.addEventListener('beforeunload', save);
+    document.addEventListener('visibilitychange', onVisibility);
+    return () => {
+        window.removeEventListener('beforeunload', save);
+        document.removeEventListener('visibilitychange', onVisibility);
+    };
+  }, [gameStarted, cityName, getSnapshot]);
+
+  const handleSave = useCallback((slot: number, name: string) => {
+    setCityName(name);
+    return writeSlot(slot, name, getSnapshot());
+  }, [getSnapshot]);
+
+  const handleExport = useCallback(() => {
+    exportSave(createSave(cityName, getSnapshot()));
+  }, [cityName, getSnapshot]);
+
+  const handleExportStats = useCallback(() => {
+    exportStatsCsv(cityName, simRef.current);
+  }, [cityName]);
 
 
   // --- Game Loop ---
+  // The economy and the day/night cycle share one clock, so pausing or speeding up moves both
   useEffect(() => {
     if (!gameStarted) return;
 
-    // Day/Night Cycle (Smoother update than tick)
-    // Slower and smoother: +0.001 every 200ms
-    const dayInterval = setInterval(() => {
-        setTimeOfDay(prev => (prev + 0.001) % 1);
-    }, 200);
-
+    let pendingMs = 0;
+    let last = performance.now();
     const intervalId = setInterval(() => {
-      tickCounter.current += 1;
-      // Increment day only every 10 ticks (approx 20 seconds) to slow down day passing
-      const isNewDay = tickCounter.current % 10 === 0;
-
-      // 1. Calculate income/pop gen
-      let dailyIncome = 0;
-      let dailyPopGrowth = 0;
-      let buildingCounts: Record<string, number> = {};
-
-      gridRef.current.flat().forEach(tile => {
-        if (tile.buildingType !== BuildingType.None && tile.owned) {
-          const config = BUILDINGS[tile.buildingType];
-          if (config) { // Check if config exists
-             if (config.type !== BuildingType.Land) {
-                 dailyIncome += config.incomeGen;
-                 dailyPopGrowth += config.popGen;
-                 buildingCounts[tile.buildingType] = (buildingCounts[tile.buildingType] || 0) + 1;
-             }
-          }
-        }
-      });
-
-      // Cap population growth by residential count just for some logic
-      const resCount = buildingCounts[BuildingType.Residential] || 0;
-      const maxPop = resCount * 50; // 50 people per house max
-
-      // 2. Update Stats
-      setStats(prev => {
-        let newPop = prev.population + dailyPopGrowth;
-        if (newPop > maxPop) newPop = maxPop; // limit
-        if (resCount === 0 && prev.population > 0) newPop = Math.max(0, prev.population - 5); // people leave if no homes
-
-        const newStats = {
-          money: prev.money + dailyIncome,
-          population: newPop,
-          day: isNewDay ? prev.day + 1 : prev.day,
-        };
-        
-        return newStats;
-      });
+      const now = performance.now();
+      const elapsed = now - last;
+      last = now;
+      // Hidden tabs have their timers throttled; that time is skipped rather than run in a burst on return
+      if (document.hidden) return;
+
+      const step = advanceClock(pendingMs, elapsed, speedRef.current);
+      pendingMs = step.pendingMs;
+      if (step.dayFraction > 0) setTimeOfDay(prev => (prev + step.dayFraction) % 1);
+      for (let i = 0; i < step.ticks; i++) {
+        const result = tick(simRef.current, rngRef.current);
+        commitSim(result.state);
+        addNotices(result.notices);
+        if (result.requestHeadline) fetchNews();
+      }
+    }, CLOCK_STEP_MS);
 
-      // 4. Trigger news
-      fetchNews();
+    return () => clearInterval(intervalId);
+  }, [fetchNews, addNotices, commitSim, gameStarted]);
 
-    }, TICK_RATE_MS);
+  const changeSpeed = useCallback((next: GameSpeed) => {
+    if (next > 0) resumeSpeedRef.current = next;
+    speedRef.current = next;
+    setSpeed(next);
+  }, []);
 
-    return () => {
-        clearInterval(intervalId);
-        clearInterval(dayInterval);
+  const togglePause = useCallback(() => {
+    changeSpeed(speedRef.current === 0 ? resumeSpeedRef.current : 0);
+  }, [changeSpeed]);
+
+  // Spacebar pauses and resumes
+  useEffect(() => {
+    if (!gameStarted) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      e.preventDefault();
+      togglePause();
     };
-  }, [fetchNews, gameStarted]);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [gameStarted, togglePause]);
 
 
   // --- Interaction Logic ---
 
-  const handleTileClick = useCallback((x: number, y: number) => {
-    if (!gameStarted) return; 
-
-    const currentGrid = gridRef.current;
-    const currentStats = statsRef.current;
-    const tool = selectedTool; 
-    
-    if (x < 0 || x >= GRID_SIZE || y < 0 || y >= GRID_SIZE) return;
-
-    const currentTile = currentGrid[y][x];
-
-    // --- LAND TOOL LOGIC ---
-    if (tool === BuildingType.Land) {
-        if (currentTile.isWater) {
-             addNewsItem({id: Date.now().toString(), text: "Cannot purchase protected public waterways.", type: 'neutral'});
-             return;
-        }
-
-        if (currentTile.owned) {
-            // SELL LOGIC
-            // Can only sell if empty
-            if (currentTile.buildingType === BuildingType.None) {
-                const sellPrice = Math.floor((currentTile.landPrice || LAND_COST) * 0.5);
-                const newGrid = currentGrid.map(row => [...row]);
-                newGrid[y][x] = { ...currentTile, owned: false };
-                setGrid(newGrid);
-                setStats(prev => ({ ...prev, money: prev.money + sellPrice }));
-                addNewsItem({id: Date.now().toString(), text: `Land sold for $${sellPrice}.`, type: 'neutral'});
-            } else {
-                addNewsItem({id: Date.now().toString(), text: "Must clear building before selling land.", type: 'negative'});
-            }
-        } else {
-            // BUY LOGIC
-            const cost = currentTile.landPrice || LAND_COST;
-            
-            // Must be adjacent to owned land
-            const hasOwnedNeighbor = 
-                (x > 0 && currentGrid[y][x-1].owned) ||
-                (x < GRID_SIZE - 1 && currentGrid[y][x+1].owned) ||
-                (y > 0 && currentGrid[y-1][x].owned) ||
-                (y < GRID_SIZE - 1 && currentGrid[y+1][x].owned);
-            
-            if (hasOwnedNeighbor) {
-                if (currentStats.money >= cost) {
-                    const newGrid = currentGrid.map(row => [...row]);
-                    newGrid[y][x] = { ...currentTile, owned: true };
-                    setGrid(newGrid);
-                    setStats(prev => ({ ...prev, money: prev.money - cost }));
-                    addNewsItem({id: Date.now().toString(), text: `New territory acquired for $${cost}.`, type: 'positive'});
-                } else {
-                    addNewsItem({id: Date.now().toString(), text: `Insufficient funds. Plot costs $${cost}.`, type: 'negative'});
-                }
-            } else {
-                addNewsItem({id: Date.now().toString(), text: "Can only buy land adjacent to owned territory.", type: 'neutral'});
-            }
-        }
-        return;
+  const dispatch = useCallback((action: SimAction) => {
+    const before = simRef.current;
+    const result = applyAction(before, action);
+    if (result.applied) {
+      commitSim(result.state);
+      if (isUndoable(action)) {
+        commitHistory(recordEntry(historyRef.current, diffStates(describeAction(action), before, result.state)));
+      }
     }
+    addNotices(result.notices);
+    return result.applied;
+  }, [commitSim, commitHistory, addNotices]);
+
+  // --- Advisor ---
+
+  // The ref keeps a second request from starting before the status update renders
+  const goalRequestRef = useRef(false);
+  const requestGoal = useCallback(async () => {
+    if (goalRequestRef.current) return;
+    goalRequestRef.current = true;
+    setGoalStatus('loading');
+    const { stats, grid } = simRef.current;
+    const goal = await aiProviderRef.current.generateCityGoal(stats, grid);
+    goalRequestRef.current = false;
+    setGoalStatus(goal && dispatch({ type: 'setGoal', goal }) ? 'idle' : 'failed');
+  }, [dispatch]);
+
+  // Ask for the next goal whenever there is none; after a failure the player retries from the panel
+  useEffect(() => {
+    if (gameStarted && !sim.advisor.goal && goalStatus === 'idle') requestGoal();
+  }, [gameStarted, sim.advisor.goal, goalStatus, requestGoal]);
+
+  const handleUndo = useCallback(() => {
+    const result = undo(simRef.current, historyRef.current);
+    commitSim(result.state);
+    commitHistory(result.history);
+    addNotices(result.notices);
+  }, [commitSim, commitHistory, addNotices]);
+
+  const handleRedo = useCallback(() => {
+    const result = redo(simRef.current, historyRef.current);
+    commitSim(result.state);
+    commitHistory(result.history);
+    addNotices(result.notices);
+  }, [commitSim, commitHistory, addNotices]);
+
+  const handleSetUndoDepth = useCallback((depth: number) => {
+    commitHistory(setHistoryDepth(historyRef.current, depth));
+    saveUndoDepth(depth);
+  }, [commitHistory]);
+
+  // Ctrl+Z / Ctrl+Y (Cmd on macOS); Ctrl+Shift+Z also redoes
+  useEffect(() => {
+    if (!gameStarted) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [gameStarted, handleUndo, handleRedo]);
 
-    // --- STANDARD BUILDING TOOLS ---
-    
-    // Check ownership first
-    if (!currentTile.owned) {
-        addNewsItem({id: Date.now().toString(), text: "You do not own this land.", type: 'negative'});
-        return;
-    }
+  // Clicks and the inspector's quick actions go through the same rules
+  const applyTool = useCallback((tool: BuildingType, x: number, y: number) => {
+    const tile = simRef.current.grid[y]?.[x];
+    if (!tile) return;
+    dispatch(actionForTool(tool, tile));
+  }, [dispatch]);
 
-    // Check terrain obstacles
-    if (currentTile.isWater) {
-        // Bridges can be built on water
-        if (tool !== BuildingType.Rail && tool !== BuildingType.Bridge) {
-             addNewsItem({id: Date.now().toString(), text: "Cannot build on water. Build a bridge!", type: 'negative'});
-             return;
-        }
-    } else {
-        // Cannot build bridges on land (optional restriction, but keeps it clean)
-        if (tool === BuildingType.Bridge) {
-             addNewsItem({id: Date.now().toString(), text: "Bridges must be built on water.", type: 'negative'});
-             return;
-        }
-    }
+  const handleTileClick = useCallback((x: number, y: number) => {
+    if (!gameStarted) return; 
 
-    const buildingConfig = BUILDINGS[tool];
-
-    // Bulldoze logic
-    if (tool === BuildingType.None) {
-      if (currentTile.buildingType !== BuildingType.None) {
-        const demolishCost = 5;
-        if (currentStats.money >= demolishCost) {
-            const newGrid = currentGrid.map(row => [...row]);
-            newGrid[y][x] = { ...currentTile, buildingType: BuildingType.None, isRail: false }; // Clear rail too
-            setGrid(newGrid);
-            setStats(prev => ({ ...prev, money: prev.money - demolishCost }));
-        } else {
-            addNewsItem({id: Date.now().toString(), text: "Cannot afford demolition costs.", type: 'negative'});
-        }
-      }
+    if (selectedTool === BuildingType.Inspect) {
+      setInspected({ x, y });
       return;
     }
-
-    // Placement Logic
-    if (currentTile.buildingType === BuildingType.None || (tool === BuildingType.Rail && currentTile.isWater) || (tool === BuildingType.Bridge && currentTile.isWater)) {
-      if (currentStats.money >= buildingConfig.cost) {
-        // Deduct cost
-        setStats(prev => ({ ...prev, money: prev.money - buildingConfig.cost }));
-        
-        // Place building
-        const newGrid = currentGrid.map(row => [...row]);
-        // Special case for Rail
-        if (tool === BuildingType.Rail) {
-            newGrid[y][x] = { ...currentTile, buildingType: BuildingType.Rail, isRail: true };
-        } else {
-            newGrid[y][x] = { ...currentTile, buildingType: tool };
-        }
-        setGrid(newGrid);
-      } else {
-        // Not enough money feedback
-        addNewsItem({id: Date.now().toString() + Math.random(), text: `Treasury insufficient for ${buildingConfig.name}.`, type: 'negative'});
-      }
-    }
-  }, [selectedTool, addNewsItem, gameStarted]);
+    applyTool(selectedTool, x, y);
+  }, [selectedTool, applyTool, gameStarted]);
+
+  const handleInspectorAction = useCallback((tool: BuildingType) => {
+    if (inspected) applyTool(tool, inspected.x, inspected.y);
+  }, [inspected, applyTool]);
+
+  // Recomputed every tick so the panel follows the live city
+  const inspection = useMemo(() => inspected && inspectTile(sim, inspected.x, inspected.y), [sim, inspected]);
+
+  // A whole drag is one action, so it is one undo step and never half-built
+  const handleTileDrag = useCallback((from: GridPoint, to: GridPoint) => {
+    if (!gameStarted || selectedTool === BuildingType.Inspect) return;
+    dispatch({ type: 'drag', tool: selectedTool, from, to });
+  }, [selectedTool, dispatch, gameStarted]);
+
+  const handlePlanDrag = useCallback((from: GridPoint, to: GridPoint) =>
+    planDrag(simRef.current, { type: 'drag', tool: selectedTool, from, to }), [selectedTool]);
+
+  // Regenerates the map shown behind the start screen; options default to the preset's own
+  const handleConfigureMap = (presetId: string, seed: number, options = getMapPreset(presetId).options) => {
+    setMapPresetId(presetId);
+    setMapSeed(seed);
+    setMapOptions(options);
+    resetSim(createInitialState(seed, options));
+  };
 
   const handleStart = () => {
+    const preset = getMapPreset(mapPresetId);
+    const terrain = mapOptions === preset.options ? preset.name : `Custom ${preset.name}`;
     setGameStarted(true);
+    addNewsItem({ id: Date.now().toString(), text: `Welcome to POPLU CITY. ${terrain} terrain generated from seed ${mapSeed}.`, type: 'positive' });
+  };
+
+  // Back to the start screen with a fresh map of the same kind
+  const handleStartOver = () => {
+    setGameStarted(false);
+    setNewsFeed([]);
+    handleConfigureMap(mapPresetId, randomSeed(), mapOptions);
+  };
+
+  // Scenarios bring their own map and money, so they start straight away
+  const handleStartScenario = (scenario: Scenario) => {
+    setMapPresetId(scenario.map.preset);
+    setMapSeed(scenario.map.seed);
+    setMapOptions(getMapPreset(scenario.map.preset).options);
+    resetSim(createScenarioState(scenario));
+    setCityName(scenario.name);
+    setNewsFeed([]);
+    setGameStarted(true);
+    addNewsItem({ id: Date.now().toString(), text: `Scenario: ${scenario.name}. ${scenario.description}`, type: 'neutral' });
+  };
+
+  const handleLoad = (save: SaveData) => {
+    resetSim(save.sim);
+    setNewsFeed(save.newsFeed);
+    setTimeOfDay(save.timeOfDay);
+    setCityName(save.name);
+    setGameStarted(true);
+    addNewsItem({ id: Date.now().toString(), text: `Welcome back to ${save.name}. Day ${save.sim.stats.day} resumes.`, type: 'positive' });
   };
 
   return (
@@ -290,24 +349,96 @@ function App() {
       {/* 3D Rendering Layer - Always visible now, providing background for start screen */}
       <IsoMap 
         grid={grid} 
+        money={stats.money}
         onTileClick={handleTileClick} 
+        onTileDrag={handleTileDrag}
+        planDrag={handlePlanDrag}
         hoveredTool={selectedTool}
+        inspected={inspected}
         population={stats.population}
+        trains={sim.trains}
+        traffic={sim.traffic}
+        landValue={sim.landValue}
+        pollution={sim.pollution}
+        happiness={sim.happiness}
+        events={sim.events}
+        overlay={overlay}
         timeOfDay={timeOfDay}
+        speed={speed}
       />
       
       {/* Start Screen Overlay */}
       {!gameStarted && (
-        <StartScreen onStart={handleStart} />
+        <StartScreen
+          onStart={handleStart}
+          onLoad={handleLoad}
+          onStartScenario={handleStartScenario}
+          mapPresetId={mapPresetId}
+          mapSeed={mapSeed}
+          mapOptions={mapOptions}
+          onConfigureMap={handleConfigureMap}
+          aiSettings={aiSettings}
+          onAISettingsChange={handleAISettingsChange}
+        />
       )}
 
       {/* UI Layer */}
       {gameStarted && (
         <UIOverlay
           stats={stats}
+          demand={sim.demand}
+          utilities={getUtilities(sim.grid)}
+          taxRates={sim.taxRates}
+          budget={sim.budget}
+          statsHistory={sim.statsHistory}
+          onExportStats={handleExportStats}
+          onSetTaxRate={(zone, rate) => dispatch({ type: 'setTaxRate', zone, rate })}
+          loans={sim.loans}
+          onTakeLoan={(term, amount) => dispatch({ type: 'takeLoan', term, amount })}
+          onRepayLoan={(id) => dispatch({ type: 'repayLoan', id })}
+          canUndo={history.past.length > 0}
+          canRedo={history.future.length > 0}
+          onUndo={handleUndo}
+          onRedo={handleRedo}
+          advisor={sim.advisor}
+          goalProgress={sim.advisor.goal ? goalProgress(sim, sim.advisor.goal) : 0}
+          goalStatus={goalStatus}
+          scenario={sim.scenario}
+          scenarioProgress={sim.scenario ? sim.scenario.scenario.goals.map(goal => goalProgress(sim, goal)) : []}
+          onRequestGoal={requestGoal}
+          aiSettings={aiSettings}
+          onAISettingsChange={handleAISettingsChange}
+          disasters={sim.disasters}
+          onSetDisasters={(frequency) => dispatch({ type: 'setDisasters', frequency })}
+          undoDepth={history.depth}
+          onSetUndoDepth={handleSetUndoDepth}
+          overlay={overlay}
+          onSetOverlay={setOverlay}
           selectedTool={selectedTool}
           onSelectTool={setSelectedTool}
+          toolLocks={lockedTools(sim)}
+          inspection={inspection}
+          onInspectorAction={handleInspectorAction}
+          onCloseInspector={() => setInspected(null)}
           newsFeed={newsFeed}
+          cityName={cityName}
+          onSave={handleSave}
+          onExport={handleExport}
+          speed={speed}
+          onSetSpeed={changeSpeed}
+        />
+      )}
+
+      {gameStarted && sim.bankrupt && !sim.scenario && (
+        <GameOverScreen cityName={cityName} stats={stats} loans={sim.loans} onStartOver={handleStartOver} />
+      )}
+
+      {gameStarted && sim.scenario && sim.scenario.outcome !== 'playing' && (
+        <ScenarioResultsScreen
+          scenario={sim.scenario}
+          stats={stats}
+          onRetry={() => sim.scenario && handleStartScenario(sim.scenario.scenario)}
+          onExit={handleStartOver}
         />
       )}
 
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { AIGoal, AdvisorState } from '../types';
+import { BUILDINGS } from '../constants';
+
+interface AdvisorPanelProps {
+  advisor: AdvisorState;
+  progress: number;
+  status: 'idle' | 'loading' | 'failed';
+  onRequestGoal: () => void;
+}
+
+const targetLabel = (goal: AIGoal) => {
+  if (goal.targetType === 'population') return 'Population';
+  if (goal.targetType === 'money') return 'Treasury';
+  return goal.buildingType ? `${BUILDINGS[goal.buildingType].name} count` : 'Buildings';
+};
+
+const formatValue = (goal: AIGoal, value: number) =>
+  goal.targetType === 'money' ? `$${value.toLocaleString()}` : value.toLocaleString();
+
+const AdvisorPanel: React.FC<AdvisorPanelProps> = ({ advisor, progress, status, onRequestGoal }) => {
+  const [showHistory, setShowHistory] = useState(false);
+  const { goal, completedGoals } = advisor;
+  const percent = goal ? Math.min(100, Math.max(0, (progress / Math.max(goal.targetValue, 1)) * 100)) : 0;
+
+  return (
+    <div className="bg-gray-900/90 text-white p-3 rounded-xl border border-gray-700 shadow-2xl backdrop-blur-md w-full md:w-72">
+      <div className="flex justify-between items-center mb-1">
+        <span className="text-[10px] text-cyan-400 uppercase font-bold tracking-widest">City Advisor</span>
+        {completedGoals.length > 0 && (
+          <button onClick={() => setShowHistory(v => !v)} className="text-[10px] text-gray-400 hover:text-white font-bold uppercase tracking-wider">
+            {showHistory ? 'Hide' : `Done (${completedGoals.length})`}
+          </button>
+        )}
+      </div>
+
+      {goal ? (
+        <>
+          <p className="text-xs text-gray-200 leading-snug mb-2">{goal.description}</p>
+          <div className="flex justify-between text-[10px] text-gray-400 mb-1">
+            <span>{targetLabel(goal)}: <span className="font-mono text-white">{formatValue(goal, progress)}</span> / {formatValue(goal, goal.targetValue)}</span>
+            <span className="font-mono text-green-400">+${goal.reward.toLocaleString()}</span>
+          </div>
+          <div className="h-1.5 bg-gray-800 rounded-full overflow-hidden">
+            <div className="h-full bg-cyan-500 transition-all duration-500" style={{ width: `${percent}%` }} />
+          </div>
+        </>
+      ) : status === 'failed' ? (
+        <div className="flex justify-between items-center text-xs text-gray-400">
+          <span>The advisor is unavailable.</span>
+          <button onClick={onRequestGoal} className="px-2 py-0.5 bg-cyan-700 hover:bg-cyan-600 rounded text-white text-[10px] font-bold uppercase">Retry</button>
+        </div>
+      ) : (
+        <div className="text-xs text-gray-400 italic animate-pulse">Consulting the council...</div>
+      )}
+
+      {showHistory && (
+        <div className="mt-2 pt-2 border-t border-gray-700 max-h-40 overflow-y-auto space-y-1">
+          {[...completedGoals].reverse().map((done, i) => (
+            <div key={i} className="flex justify-between gap-2 text-[10px]">
+              <span className="text-gray-300"><span className="font-mono text-gray-500">Day {done.completedDay}</span> {done.description}</span>
+              <span className="font-mono text-green-400 flex-shrink-0">+${done.reward.toLocaleString()}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdvisorPanel;
@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { BudgetReport, ExpenseCategory, IncomeCategory, Loan, LoanTerm, SimState, Zone } from '../types';
+import { DEFAULT_TAX_RATE, LOAN_AMOUNTS, LOAN_TERMS, MAX_TAX_RATE } from '../constants';
+import { taxGrowthFactor, totalExpenses, totalIncome } from '../simulation/budget';
+import { creditLimit, loanQuote, totalDebt } from '../simulation/loans';
+
+interface BudgetPanelProps {
+  taxRates: SimState['taxRates'];
+  budget: SimState['budget'];
+  onSetTaxRate: (zone: Zone, rate: number) => void;
+  loans: Loan[];
+  population: number;
+  onTakeLoan: (term: LoanTerm, amount: number) => void;
+  onRepayLoan: (id: number) => void;
+  onClose: () => void;
+}
+
+const INCOME_LABELS: Record<IncomeCategory, string> = {
+  residential: 'Residential Tax',
+  commercial: 'Commercial Tax',
+  industrial: 'Industrial Tax',
+  transit: 'Rail Fares',
+  other: 'Other',
+};
+
+const EXPENSE_LABELS: Record<ExpenseCategory, string> = {
+  zones: 'Building Upkeep',
+  roads: 'Roads & Bridges',
+  transit: 'Rail & Stations',
+  parks: 'Parks',
+  utilities: 'Power & Water',
+  services: 'Civic Services',
+  loans: 'Loan Repayments',
+};
+
+const TAX_ZONES: { zone: Zone; label: string }[] = [
+  { zone: 'residential', label: 'Residential' },
+  { zone: 'commercial', label: 'Commercial' },
+  { zone: 'industrial', label: 'Industrial' },
+];
+
+const money = (value: number) => `$${Math.round(value).toLocaleString()}`;
+
+const Row: React.FC<{ label: string; value: number; className: string }> = ({ label, value, className }) => (
+  <div className="flex justify-between text-xs">
+    <span className="text-gray-300">{label}</span>
+    <span className={`font-mono ${className}`}>{money(value)}</span>
+  </div>
+);
+
+// Borrowing options and the loans still being repaid
+const LoanSection: React.FC<Pick<BudgetPanelProps, 'loans' | 'population' | 'onTakeLoan' | 'onRepayLoan'>> = ({ loans, population, onTakeLoan, onRepayLoan }) => {
+  const [term, setTerm] = useState<LoanTerm>('loan');
+  const limit = creditLimit(population);
+  const credit = Math.max(0, limit - totalDebt(loans));
+  const { days, interest } = LOAN_TERMS[term];
+
+  return (
+    <div className="mt-3 pt-2 border-t border-gray-700">
+      <div className="flex justify-between items-baseline">
+        <span className="text-[10px] text-gray-400 uppercase font-bold tracking-widest">Borrowing</span>
+        <span className="text-[10px] font-mono text-gray-400" title="Debt allowed grows with population">Credit {money(credit)} / {money(limit)}</span>
+      </div>
+      <div className="grid grid-cols-2 gap-1 mt-1">
+        {(Object.keys(LOAN_TERMS) as LoanTerm[]).map(option => (
+          <button
+            key={option}
+            onClick={() => setTerm(option)}
+            className={`rounded py-1 text-[10px] font-bold border transition-colors ${term === option ? 'border-cyan-400 bg-cyan-900/40' : 'border-gray-700 bg-gray-800/80 hover:bg-gray-700'}`}
+          >
+            {LOAN_TERMS[option].label}
+          </button>
+        ))}
+      </div>
+      <div className="text-[10px] text-gray-500 mt-1">{Math.round(interest * 100)}% interest, repaid daily over {days} days</div>
+      <div className="grid grid-cols-3 gap-1 mt-1">
+        {LOAN_AMOUNTS.map(amount => {
+          const { total, payment } = loanQuote(term, amount);
+          return (
+            <button
+              key={amount}
+              onClick={() => onTakeLoan(term, amount)}
+              disabled={total > credit}
+              title={`${money(payment)} a day, ${money(total)} in total`}
+              className="rounded py-1 text-[10px] font-bold font-mono bg-gray-800 border border-gray-700 hover:bg-gray-700 disabled:opacity-30 disabled:cursor-not-allowed"
+            >
+              +{money(amount)}
+            </button>
+          );
+        })}
+      </div>
+      {loans.length > 0 && (
+        <div className="space-y-1 mt-2">
+          {loans.map(loan => (
+            <div key={loan.id} className="flex items-center justify-between text-xs gap-2">
+              <span className="text-gray-300 truncate">{LOAN_TERMS[loan.term].label} {money(loan.principal)}</span>
+              <span className="font-mono text-red-300 text-[10px]">{money(loan.payment)}/day · {money(loan.balance)} left</span>
+              <button onClick={() => onRepayLoan(loan.id)} className="text-[10px] font-bold text-cyan-400 hover:text-cyan-300">Repay</button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const BudgetPanel: React.FC<BudgetPanelProps> = ({ taxRates, budget, onSetTaxRate, loans, population, onTakeLoan, onRepayLoan, onClose }) => {
+  // Show the last full day once there is one; until then the running total for today
+  const report: BudgetReport = budget.lastDay ?? budget.today;
+  const income = totalIncome(report);
+  const expenses = totalExpenses(report);
+  const net = income - expenses;
+
+  return (
+    <div className="bg-gray-900/95 text-white p-3 rounded-xl border border-gray-700 shadow-2xl backdrop-blur-md w-full md:w-72">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-[10px] text-gray-400 uppercase font-bold tracking-widest">City Budget · {budget.lastDay ? 'Yesterday' : 'Today so far'}</span>
+        <button onClick={onClose} className="text-gray-500 hover:text-white text-xs font-bold">✕</button>
+      </div>
+
+      <div className="space-y-0.5 mb-2">
+        {(Object.keys(INCOME_LABELS) as IncomeCategory[]).map(key => (
+          <Row key={key} label={INCOME_LABELS[key]} value={report.income[key] ?? 0} className="text-green-300" />
+        ))}
+      </div>
+      <div className="space-y-0.5 mb-2 pt-2 border-t border-gray-700">
+        {(Object.keys(EXPENSE_LABELS) as ExpenseCategory[]).map(key => (
+          <Row key={key} label={EXPENSE_LABELS[key]} value={-(report.expenses[key] ?? 0)} className="text-red-300" />
+        ))}
+      </div>
+      <div className="flex justify-between text-sm font-bold pt-2 border-t border-gray-700 mb-3">
+        <span>Net / day</span>
+        <span className={`font-mono ${net >= 0 ? 'text-green-400' : 'text-red-400'}`}>{net >= 0 ? '+' : ''}{money(net)}</span>
+      </div>
+
+      <span className="text-[10px] text-gray-400 uppercase font-bold tracking-widest">Tax Rates</span>
+      <div className="space-y-1 mt-1">
+        {TAX_ZONES.map(({ zone, label }) => {
+          const rate = taxRates[zone];
+          const growth = taxGrowthFactor(rate);
+          return (
+            <div key={zone}>
+              <div className="flex justify-between text-xs">
+                <span className="text-gray-300">{label}</span>
+                <span className="font-mono">
+                  {rate}%
+                  <span className={`ml-2 text-[10px] ${growth >= 1 ? 'text-green-400' : 'text-amber-400'}`}>
+                    {growth >= 1 ? '+' : ''}{Math.round((growth - 1) * 100)}% growth
+                  </span>
+                </span>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={MAX_TAX_RATE}
+                value={rate}
+                onChange={(e) => onSetTaxRate(zone, Number(e.target.value))}
+                className="w-full accent-cyan-500"
+                title={`Default ${DEFAULT_TAX_RATE}%`}
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      <LoanSection loans={loans} population={population} onTakeLoan={onTakeLoan} onRepayLoan={onRepayLoan} />
+    </div>
+  );
+};
+
+export default BudgetPanel;
@@ -0,0 +1,163 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { DailyStats } from '../types';
+import { BUILDINGS } from '../constants';
+import { recordedBuildingTypes } from '../simulation/statsHistory';
+
+interface ChartsPanelProps {
+  history: DailyStats[];
+  onExportCsv: () => void;
+  onClose: () => void;
+}
+
+interface Series {
+  label: string;
+  color: string;
+  values: number[];
+}
+
+const RANGES: { label: string; days: number | null }[] = [
+  { label: '30 Days', days: 30 },
+  { label: '100 Days', days: 100 },
+  { label: 'All', days: null },
+];
+
+const WIDTH = 240;
+const HEIGHT = 64;
+
+const money = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(Math.round(value)).toLocaleString()}`;
+const count = (value: number) => Math.round(value).toLocaleString();
+
+const xAt = (i: number, length: number) => (length <= 1 ? 0 : (i / (length - 1)) * WIDTH);
+
+// Maps values onto the chart height; the range always includes zero so growth reads honestly
+const yScale = (values: number[]) => {
+  const min = Math.min(0, ...values);
+  const max = Math.max(0, ...values);
+  const span = max - min || 1;
+  return { min, max, y: (value: number) => HEIGHT - ((value - min) / span) * HEIGHT };
+};
+
+const points = (values: number[], y: (value: number) => number) =>
+  values.map((value, i) => `${xAt(i, values.length)},${y(value)}`).join(' ');
+
+const Legend: React.FC<{ series: Series[]; format: (value: number) => string }> = ({ series, format }) => (
+  <div className="flex flex-wrap gap-x-2 gap-y-0.5 mt-0.5">
+    {series.map(s => (
+      <span key={s.label} className="flex items-center gap-1 text-[9px] text-gray-300">
+        <span className="w-2 h-2 rounded-sm" style={{ backgroundColor: s.color }}></span>
+        {s.label} <span className="font-mono text-gray-400">{format(s.values[s.values.length - 1] ?? 0)}</span>
+      </span>
+    ))}
+  </div>
+);
+
+const ChartFrame: React.FC<{ title: string; max: number; format: (value: number) => string; children: React.ReactNode }> = ({ title, max, format, children }) => (
+  <div className="mb-2">
+    <div className="flex justify-between text-[10px] text-gray-400 uppercase font-bold tracking-wider">
+      <span>{title}</span>
+      <span className="font-mono normal-case">{format(max)}</span>
+    </div>
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-16 bg-gray-800/60 rounded">
+      {children}
+    </svg>
+  </div>
+);
+
+const LineChart: React.FC<{ title: string; series: Series[]; format: (value: number) => string }> = ({ title, series, format }) => {
+  const { min, max, y } = yScale(series.flatMap(s => s.values));
+  return (
+    <>
+      <ChartFrame title={title} max={max} format={format}>
+        {min < 0 && <line x1={0} x2={WIDTH} y1={y(0)} y2={y(0)} stroke="#4b5563" strokeDasharray="3 3" vectorEffect="non-scaling-stroke" />}
+        {series.map(s => (
+          <polyline key={s.label} points={points(s.values, y)} fill="none" stroke={s.color} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        ))}
+      </ChartFrame>
+      {series.length > 1 && <Legend series={series} format={format} />}
+    </>
+  );
+};
+
+// Each series is drawn on top of the ones before it
+const StackedAreaChart: React.FC<{ title: string; series: Series[]; format: (value: number) => string }> = ({ title, series, format }) => {
+  const stacks: number[][] = [];
+  series.forEach((s, layer) => stacks.push(s.values.map((value, i) => value + (stacks[layer - 1]?.[i] ?? 0))));
+  const { max, y } = yScale(stacks[stacks.length - 1] ?? []);
+  return (
+    <>
+      <ChartFrame title={title} max={max} format={format}>
+        {series.map((s, layer) => {
+          const top = stacks[layer];
+          const bottom = stacks[layer - 1] ?? top.map(() => 0);
+          const outline = `${points(top, y)} ${bottom.map((value, i) => `${xAt(i, bottom.length)},${y(value)}`).reverse().join(' ')}`;
+          return <polygon key={s.label} points={outline} fill={s.color} fillOpacity={0.8} />;
+        })}
+      </ChartFrame>
+      <Legend series={series} format={format} />
+    </>
+  );
+};
+
+const ChartsPanel: React.FC<ChartsPanelProps> = ({ history, onExportCsv, onClose }) => {
+  const [range, setRange] = useState(RANGES[0]);
+  const shown = range.days === null ? history : history.slice(-range.days);
+
+  const buildingSeries = recordedBuildingTypes(shown).map(type => ({
+    label: BUILDINGS[type].name,
+    color: BUILDINGS[type].color,
+    values: shown.map(entry => entry.buildings[type] ?? 0),
+  }));
+
+  return (
+    <div className="bg-gray-900/95 text-white p-3 rounded-xl border border-gray-700 shadow-2xl backdrop-blur-md w-full md:w-72">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-[10px] text-gray-400 uppercase font-bold tracking-widest">City History</span>
+        <button onClick={onClose} className="text-gray-500 hover:text-white text-xs font-bold">✕</button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-1 mb-2">
+        {RANGES.map(option => (
+          <button
+            key={option.label}
+            onClick={() => setRange(option)}
+            className={`rounded py-1 text-[10px] font-bold border transition-colors ${range === option ? 'border-cyan-400 bg-cyan-900/40' : 'border-gray-700 bg-gray-800/80 hover:bg-gray-700'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {shown.length < 2 ? (
+        <div className="text-xs text-gray-400 text-center py-4">Charts fill in after a couple of days.</div>
+      ) : (
+        <div className="max-h-[50vh] overflow-y-auto pr-1">
+          <LineChart title="Treasury" series={[{ label: 'Treasury', color: '#4ade80', values: shown.map(e => e.money) }]} format={money} />
+          <LineChart title="Population" series={[{ label: 'Citizens', color: '#93c5fd', values: shown.map(e => e.population) }]} format={count} />
+          <LineChart
+            title="Daily Income & Spending"
+            series={[
+              { label: 'Income', color: '#4ade80', values: shown.map(e => e.income) },
+              { label: 'Spending', color: '#f87171', values: shown.map(e => e.expenses) },
+            ]}
+            format={money}
+          />
+          <StackedAreaChart title="Buildings" series={buildingSeries} format={count} />
+        </div>
+      )}
+
+      <button
+        onClick={onExportCsv}
+        disabled={history.length === 0}
+        className="w-full mt-2 py-1.5 bg-cyan-700 hover:bg-cyan-600 rounded text-xs font-bold uppercase tracking-wider disabled:opacity-30 disabled:cursor-not-allowed"
+      >
+        Export CSV
+      </button>
+    </div>
+  );
+};
+
+export default ChartsPanel;
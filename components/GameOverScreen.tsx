@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { CityStats, Loan } from '../types';
+import { BANKRUPTCY_GRACE_DAYS } from '../constants';
+import { totalDebt } from '../simulation/loans';
+
+interface GameOverScreenProps {
+  cityName: string;
+  stats: CityStats;
+  loans: Loan[];
+  onStartOver: () => void;
+}
+
+const Stat: React.FC<{ label: string; value: string; className?: string }> = ({ label, value, className = 'text-white' }) => (
+  <div className="flex flex-col items-center">
+    <span className="text-[10px] text-gray-400 uppercase font-bold tracking-widest">{label}</span>
+    <span className={`text-xl font-black font-mono ${className}`}>{value}</span>
+  </div>
+);
+
+// Shown once the treasury has stayed in the red past the grace period
+const GameOverScreen: React.FC<GameOverScreenProps> = ({ cityName, stats, loans, onStartOver }) => (
+  <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+    <div className="bg-gray-900/95 text-white p-6 rounded-2xl border border-red-700 shadow-2xl w-full max-w-sm text-center">
+      <div className="text-3xl font-black text-red-400 tracking-tight">BANKRUPT</div>
+      <p className="text-sm text-gray-300 mt-2">
+        {cityName} spent more than {BANKRUPTCY_GRACE_DAYS} days in the red. Creditors have taken over city hall.
+      </p>
+      <div className="grid grid-cols-3 gap-2 my-5">
+        <Stat label="Day" value={stats.day.toLocaleString()} />
+        <Stat label="Citizens" value={stats.population.toLocaleString()} className="text-blue-300" />
+        <Stat label="Owed" value={`$${(totalDebt(loans) - Math.min(0, stats.money)).toLocaleString()}`} className="text-red-300" />
+      </div>
+      <button onClick={onStartOver} className="w-full py-2 bg-cyan-700 hover:bg-cyan-600 rounded-lg text-sm font-bold uppercase tracking-wider">
+        Start Over
+      </button>
+      <p className="text-[10px] text-gray-500 mt-2">Saved cities can be loaded from the start screen.</p>
+    </div>
+  </div>
+);
+
+export default GameOverScreen;
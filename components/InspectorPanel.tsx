@@ -0,0 +1,161 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { BuildingType, CityEventKind, CivicMetric, ServiceKind } from '../types';
+import { BUILDINGS } from '../constants';
+import { TileReport } from '../simulation/inspect';
+import { MAX_LEVEL, canDensify, levelOf, upgradeCost } from '../simulation/levels';
+
+interface InspectorPanelProps {
+  report: TileReport;
+  onAction: (tool: BuildingType) => void; // Applies a tool to the inspected tile, as a click would
+  onClose: () => void;
+}
+
+const CIVIC_LABELS: Record<CivicMetric, { label: string; good: boolean }> = {
+  crime: { label: 'Crime', good: false },
+  fireRisk: { label: 'Fire Risk', good: false },
+  health: { label: 'Health', good: true },
+  education: { label: 'Education', good: true },
+};
+
+const COVERAGE_LABELS: Record<ServiceKind, string> = {
+  park: 'Parks',
+  transit: 'Transit',
+  police: 'Police',
+  fire: 'Fire',
+  health: 'Clinic',
+  education: 'School',
+};
+
+const EVENT_LABELS: Record<CityEventKind, string> = {
+  flood: 'Flooded',
+  fire: 'Burned down',
+  accident: 'Closed after an accident',
+  boom: 'Economic boom',
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+const money = (value: number) => `$${Math.round(value).toLocaleString()}`;
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="pt-2 mt-2 border-t border-gray-700">
+    <span className="text-[10px] text-gray-400 uppercase font-bold tracking-widest">{title}</span>
+    <div className="space-y-0.5 mt-1">{children}</div>
+  </div>
+);
+
+const Row: React.FC<{ label: string; value: string; tone?: 'good' | 'bad' }> = ({ label, value, tone }) => (
+  <div className="flex justify-between text-xs">
+    <span className="text-gray-300">{label}</span>
+    <span className={`font-mono ${tone === 'good' ? 'text-green-300' : tone === 'bad' ? 'text-red-300' : 'text-white'}`}>{value}</span>
+  </div>
+);
+
+// A 0..1 value where `good` says which end is desirable; near zero reads neutral
+const Level: React.FC<{ label: string; value: number; good: boolean }> = ({ label, value, good }) => (
+  <Row label={label} value={percent(value)} tone={value < 0.05 ? undefined : (good ? 'good' : 'bad')} />
+);
+
+const InspectorPanel: React.FC<InspectorPanelProps> = ({ report, onAction, onClose }) => {
+  const { tile, sellPrice } = report;
+  const built = tile.buildingType !== BuildingType.None;
+  const canUpgrade = canDensify(tile) && levelOf(tile) < MAX_LEVEL;
+  const issues = [
+    ...(report.roadAccess === false ? ['No road link to the highway'] : []),
+    ...report.missing.map(utility => `No ${utility}`),
+    ...report.events.filter(kind => kind !== 'boom').map(kind => EVENT_LABELS[kind]),
+  ];
+
+  return (
+    <div className="bg-gray-900/95 text-white p-3 rounded-xl border border-gray-700 shadow-2xl backdrop-blur-md w-64 max-h-[60vh] overflow-y-auto">
+      <div className="flex justify-between items-start mb-1">
+        <div>
+          <div className="text-sm font-bold">{report.name}{report.level !== null && <span className="text-gray-400 font-normal"> · Level {report.level}</span>}</div>
+          <div className="text-[10px] font-mono text-gray-400">({tile.x}, {tile.y})</div>
+        </div>
+        <button onClick={onClose} className="text-gray-500 hover:text-white text-xs font-bold">✕</button>
+      </div>
+
+      <div className="space-y-0.5">
+        <Row label="Owner" value={tile.isHighway ? 'State' : tile.owned ? 'City' : 'For sale'} />
+        <Row label="Land price" value={money(report.landPrice)} />
+        <Row label="Land value" value={`×${report.landValue.toFixed(2)}`} tone={report.landValue >= 1 ? 'good' : 'bad'} />
+        {tile.isWater && <Row label="Terrain" value="Water" />}
+        {tile.isRail && <Row label="Rail" value="Yes" />}
+      </div>
+
+      {built && (
+        <Section title="Output / day">
+          <Row label="Income" value={money(report.income)} tone={report.income > 0 ? 'good' : undefined} />
+          <Row label="Population growth" value={report.population.toFixed(1)} tone={report.population > 0 ? 'good' : undefined} />
+          <Row label="Upkeep" value={money(report.upkeep)} tone={report.upkeep > 0 ? 'bad' : undefined} />
+          {BUILDINGS[tile.buildingType].incomeOnArrival && <div className="text-[10px] text-gray-400">Earns fares when trains arrive.</div>}
+          {issues.length > 0 ? (
+            issues.map(issue => <div key={issue} className="text-[10px] text-red-300">⚠ {issue}</div>)
+          ) : !report.producing && tile.owned && (
+            <div className="text-[10px] text-gray-400">Not producing.</div>
+          )}
+          {report.events.includes('boom') && <div className="text-[10px] text-amber-300">★ {EVENT_LABELS.boom}</div>}
+        </Section>
+      )}
+
+      <Section title="Surroundings">
+        {report.traffic > 0 && <Row label="Traffic" value={`${report.traffic} cars`} />}
+        <Level label="Air pollution" value={report.pollution.air} good={false} />
+        <Level label="Noise" value={report.pollution.noise} good={false} />
+        <Level label="Happiness" value={report.happiness} good />
+        {(Object.keys(CIVIC_LABELS) as CivicMetric[]).map(metric => (
+          <Level key={metric} label={CIVIC_LABELS[metric].label} value={report.civic[metric]} good={CIVIC_LABELS[metric].good} />
+        ))}
+      </Section>
+
+      <Section title="Service coverage">
+        {(Object.keys(COVERAGE_LABELS) as ServiceKind[]).map(kind => (
+          <Level key={kind} label={COVERAGE_LABELS[kind]} value={report.coverage[kind]} good />
+        ))}
+      </Section>
+
+      <Section title="Neighbors">
+        <div className="flex flex-wrap gap-1">
+          {report.neighbors.map(n => (
+            <span key={`${n.x}-${n.y}`} className="text-[10px] px-1.5 py-0.5 rounded bg-gray-800 border border-gray-700">
+              {n.isWater && n.buildingType === BuildingType.None ? 'Water' : n.buildingType === BuildingType.None ? 'Empty' : BUILDINGS[n.buildingType].name}
+            </span>
+          ))}
+        </div>
+      </Section>
+
+      {tile.owned && !tile.isHighway && (
+        <div className="grid grid-cols-3 gap-1 mt-3">
+          <button
+            onClick={() => onAction(BuildingType.None)}
+            disabled={!built}
+            className="rounded py-1 text-[10px] font-bold bg-red-800 hover:bg-red-700 disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            Bulldoze
+          </button>
+          <button
+            onClick={() => onAction(BuildingType.Land)}
+            disabled={sellPrice === null}
+            title={sellPrice === null ? 'Clear the tile before selling' : undefined}
+            className="rounded py-1 text-[10px] font-bold bg-violet-800 hover:bg-violet-700 disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            Sell{sellPrice !== null && ` ${money(sellPrice)}`}
+          </button>
+          <button
+            onClick={() => onAction(BuildingType.Upgrade)}
+            disabled={!canUpgrade}
+            className="rounded py-1 text-[10px] font-bold bg-teal-800 hover:bg-teal-700 disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            Upgrade{canUpgrade && ` ${money(upgradeCost(tile))}`}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InspectorPanel;
@@ -6,11 +6,22 @@
 */
 import React, { useState, useMemo, useRef, useEffect, useCallback } from 'react';
 import { Canvas, useFrame, useThree, ThreeElements } from '@react-three/fiber';
-import { MapControls, Environment, SoftShadows, Instance, Instances, Float, useTexture, Outlines, OrthographicCamera, Text } from '@react-three/drei';
+import { MapControls, Environment, SoftShadows, Instance, Instances, Float, useTexture, Outlines, OrthographicCamera, Text, Billboard } from '@react-three/drei';
 import * as THREE from 'three';
 import { MathUtils } from 'three';
-import { Grid, BuildingType, TileData } from '../types';
-import { GRID_SIZE, BUILDINGS, LAND_COST, LAND_SELL } from '../constants';
+import { Grid, BuildingType, CityEvent, CityEventKind, GameSpeed, TileData, GridPoint, MapOverlay, SimState, Train, Utility } from '../types';
+import { BUILDINGS, MAP_OVERLAYS, MAX_COMMUTERS, RESIDENTS_PER_COMMUTER, ROAD_CAPACITY, TICK_RATE_MS, TRAIN_TILES_PER_TICK } from '../constants';
+import { buildRoadNetwork, hasRoadAccess, isRoadTile } from '../simulation/roads';
+import { DragPlan, getBuyPrice, getSellPrice } from '../simulation/actions';
+import { buildRailNetwork } from '../simulation/rail';
+import { tileCoords, tileIndex } from '../simulation/graph';
+import { congestionLevel, getTripRoutes } from '../simulation/traffic';
+import { Commuter, commuterProgress, syncCommuters } from '../simulation/citizens';
+import { createRng } from '../simulation/rng';
+import { landValueMultiplier } from '../simulation/landValue';
+import { ServiceCoverage, averageCoverage, getServiceCoverage } from '../simulation/services';
+import { MAX_LEVEL, canDensify, levelOf, upgradeCost } from '../simulation/levels';
+import { getUtilities, missingUtilities } from '../simulation/utilities';
 
 // Fix for TypeScript not recognizing R3F elements in JSX
 declare global {
@@ -20,8 +31,9 @@ declare global {
 }
 
 // --- Constants & Helpers ---
-const WORLD_OFFSET = GRID_SIZE / 2 - 0.5;
-const gridToWorld = (x: number, y: number) => [x - WORLD_OFFSET, 0, y - WORLD_OFFSET] as [number, number, number];
+// Maps are square; the world is centred on the middle of the grid whatever its size
+const worldOffset = (size: number) => size / 2 - 0.5;
+const gridToWorld = (x: number, y: number, size: number) => [x - worldOffset(size), 0, y - worldOffset(size)] as [number, number, number];
 
 // Deterministic random based on coordinates
 const getHash = (x: number, y: number) => Math.abs(Math.sin(x * 12.9898 + y * 78.233) * 43758.5453) % 1;
@@ -85,11 +97,14 @@ interface BuildingMeshProps {
   baseColor: string;
   x: number;
   y: number;
+  level?: number; // Density level: 2 stretches the usual styles, 3 swaps in a bigger one
   opacity?: number;
   transparent?: boolean;
 }
 
-const ProceduralBuilding = React.memo(({ type, baseColor, x, y, opacity = 1, transparent = false }: BuildingMeshProps) => {
+const LEVEL_TWO_HEIGHT = 1.5;
+
+const ProceduralBuilding = React.memo(({ type, baseColor, x, y, level = 1, opacity = 1, transparent = false }: BuildingMeshProps) => {
   const hash = getHash(x, y);
   const variant = Math.floor(hash * 100); // 0-99
   const rotation = Math.floor(hash * 4) * (Math.PI / 2);
@@ -113,11 +128,24 @@ const ProceduralBuilding = React.memo(({ type, baseColor, x, y, opacity = 1, tra
   const yOffset = -0.3;
 
   return (
-    <group rotation={[0, rotation, 0]} position={[0, yOffset, 0]}>
+    <group rotation={[0, rotation, 0]} position={[0, yOffset, 0]} scale={[1, level === 2 ? LEVEL_TWO_HEIGHT : 1, 1]}>
       {(() => {
         switch (type) {
           case BuildingType.Residential:
-            if (variant < 33) {
+            if (level >= 3) {
+              // Apartment tower
+              const height = 1.8 + hash * 0.6;
+              return (
+                <>
+                  <mesh {...commonProps} material={mainMat} geometry={boxGeo} position={[0, height/2, 0]} scale={[0.8, height, 0.8]} />
+                  {Array.from({ length: Math.floor(height * 3) }).map((_, i) => (
+                    <WindowBlock key={i} position={[0, 0.25 + i * 0.3, 0]} scale={[0.82, 0.12, 0.6]} />
+                  ))}
+                  <mesh {...commonProps} material={roofMat} geometry={boxGeo} position={[0, height + 0.05, 0]} scale={[0.85, 0.1, 0.85]} />
+                  <mesh {...commonProps} material={accentMat} geometry={boxGeo} position={[0.2, height + 0.2, 0.2]} scale={[0.2, 0.2, 0.2]} />
+                </>
+              );
+            } else if (variant < 33) {
               // Cozy Cottage
               return (
                 <>
@@ -150,9 +178,9 @@ const ProceduralBuilding = React.memo(({ type, baseColor, x, y, opacity = 1, tra
             }
 
           case BuildingType.Commercial:
-            if (variant < 40) {
-              // High-rise
-              const height = 1.5 + hash * 1.5;
+            if (level >= 3 || variant < 40) {
+              // High-rise, taller still as an office tower
+              const height = level >= 3 ? 2.5 + hash * 1.5 : 1.5 + hash * 1.5;
               return (
                 <>
                   <mesh {...commonProps} material={mainMat} geometry={boxGeo} position={[0, height/2, 0]} scale={[0.7, height, 0.7]} />
@@ -184,7 +212,19 @@ const ProceduralBuilding = React.memo(({ type, baseColor, x, y, opacity = 1, tra
             }
 
           case BuildingType.Industrial:
-            if (variant < 50) {
+            if (level >= 3) {
+              // Works: a long hall with twin stacks
+              return (
+                <>
+                  <mesh {...commonProps} material={mainMat} geometry={boxGeo} position={[0, 0.5, 0]} scale={[0.95, 1, 0.9]} />
+                  <mesh {...commonProps} material={accentMat} geometry={boxGeo} position={[-0.2, 1.1, 0]} scale={[0.5, 0.2, 0.9]} />
+                  <mesh {...commonProps} material={accentMat} geometry={cylinderGeo} position={[0.3, 1, -0.3]} scale={[0.1, 1, 0.1]} />
+                  <mesh {...commonProps} material={accentMat} geometry={cylinderGeo} position={[0.3, 1, 0.3]} scale={[0.1, 1, 0.1]} />
+                  <SmokeStack position={[0.3, 1.1, -0.3]} />
+                  <SmokeStack position={[0.3, 1.1, 0.3]} />
+                </>
+              );
+            } else if (variant < 50) {
               // Factory
               return (
                 <>
@@ -261,6 +301,109 @@ const ProceduralBuilding = React.memo(({ type, baseColor, x, y, opacity = 1, tra
                 </group>
             );
 
+          case BuildingType.PowerPlant:
+            return (
+                <>
+                    {/* Turbine Hall */}
+                    <mesh {...commonProps} material={mainMat} geometry={boxGeo} position={[-0.15, 0.3, 0.1]} scale={[0.6, 0.6, 0.7]} />
+                    <mesh {...commonProps} material={roofMat} geometry={boxGeo} position={[-0.15, 0.62, 0.1]} scale={[0.65, 0.05, 0.75]} />
+                    {/* Cooling Tower */}
+                    <mesh {...commonProps} material={accentMat} geometry={cylinderGeo} position={[0.25, 0.45, -0.25]} scale={[0.2, 0.9, 0.2]} />
+                    {/* Chimney */}
+                    <mesh {...commonProps} material={roofMat} geometry={cylinderGeo} position={[0.3, 0.6, 0.3]} scale={[0.06, 1.2, 0.06]} />
+                    <SmokeStack position={[0.3, 1.2, 0.3]} />
+                </>
+            );
+
+          case BuildingType.PowerLine:
+            return (
+                <group position={[0, -yOffset - 0.3, 0]}>
+                    {/* Pylon */}
+                    <mesh castShadow material={accentMat} geometry={boxGeo} position={[0, 0.6, 0]} scale={[0.06, 1.2, 0.06]} />
+                    <mesh castShadow material={accentMat} geometry={boxGeo} position={[0, 1.1, 0]} scale={[0.6, 0.05, 0.05]} />
+                    <mesh castShadow material={accentMat} geometry={boxGeo} position={[0, 0.9, 0]} scale={[0.4, 0.05, 0.05]} />
+                    {/* Insulators */}
+                    {[-0.28, 0.28].map(ix => (
+                        <mesh key={ix} material={roofMat} geometry={sphereGeo} position={[ix, 1.06, 0]} scale={0.04} />
+                    ))}
+                </group>
+            );
+
+          case BuildingType.WaterPump:
+            return (
+                <>
+                    {/* Pump House */}
+                    <mesh {...commonProps} material={accentMat} geometry={boxGeo} position={[-0.25, 0.2, 0.2]} scale={[0.35, 0.4, 0.4]} />
+                    {/* Tower Legs */}
+                    {[[-0.15, -0.15], [0.15, -0.15], [-0.15, 0.15], [0.15, 0.15]].map(([lx, lz]) => (
+                        <mesh key={`${lx}-${lz}`} castShadow material={roofMat} geometry={cylinderGeo} position={[lx + 0.1, 0.45, lz - 0.1]} scale={[0.03, 0.9, 0.03]} />
+                    ))}
+                    {/* Tank */}
+                    <mesh {...commonProps} material={mainMat} geometry={cylinderGeo} position={[0.1, 1, -0.1]} scale={[0.3, 0.35, 0.3]} />
+                    <mesh {...commonProps} material={mainMat} geometry={coneGeo} position={[0.1, 1.28, -0.1]} scale={[0.32, 0.2, 0.32]} />
+                </>
+            );
+
+          case BuildingType.WaterPipe:
+            return (
+                <group position={[0, -yOffset - 0.29, 0]}>
+                    {/* Pipe crossing with a valve wheel on top */}
+                    <mesh castShadow material={mainMat} geometry={cylinderGeo} position={[0, 0.08, 0]} rotation={[Math.PI / 2, 0, 0]} scale={[0.08, 1, 0.08]} />
+                    <mesh castShadow material={mainMat} geometry={cylinderGeo} position={[0, 0.08, 0]} rotation={[0, 0, Math.PI / 2]} scale={[0.08, 1, 0.08]} />
+                    <mesh material={accentMat} geometry={cylinderGeo} position={[0, 0.2, 0]} scale={[0.04, 0.15, 0.04]} />
+                    <mesh material={new THREE.MeshStandardMaterial({ color: '#dc2626' })} geometry={cylinderGeo} position={[0, 0.28, 0]} scale={[0.12, 0.02, 0.12]} />
+                </group>
+            );
+
+          case BuildingType.PoliceStation:
+            return (
+                <>
+                    <mesh {...commonProps} material={mainMat} geometry={boxGeo} position={[0, 0.3, 0]} scale={[0.8, 0.6, 0.7]} />
+                    <mesh {...commonProps} material={roofMat} geometry={boxGeo} position={[0, 0.62, 0]} scale={[0.85, 0.05, 0.75]} />
+                    <WindowBlock position={[0, 0.35, 0.36]} scale={[0.6, 0.15, 0.05]} />
+                    {/* Light bar */}
+                    <mesh material={new THREE.MeshBasicMaterial({ color: '#ef4444' })} geometry={boxGeo} position={[-0.08, 0.7, 0]} scale={[0.12, 0.08, 0.08]} />
+                    <mesh material={new THREE.MeshBasicMaterial({ color: '#3b82f6' })} geometry={boxGeo} position={[0.08, 0.7, 0]} scale={[0.12, 0.08, 0.08]} />
+                </>
+            );
+
+          case BuildingType.FireStation:
+            return (
+                <>
+                    <mesh {...commonProps} material={mainMat} geometry={boxGeo} position={[0.05, 0.3, 0]} scale={[0.7, 0.6, 0.8]} />
+                    {/* Engine bay doors */}
+                    <mesh material={new THREE.MeshStandardMaterial({ color: '#e5e7eb' })} geometry={boxGeo} position={[0.05, 0.22, 0.41]} scale={[0.25, 0.4, 0.02]} />
+                    {/* Hose tower */}
+                    <mesh {...commonProps} material={accentMat} geometry={boxGeo} position={[-0.3, 0.55, -0.2]} scale={[0.2, 1.1, 0.2]} />
+                    <mesh {...commonProps} material={roofMat} geometry={coneGeo} position={[-0.3, 1.2, -0.2]} scale={[0.18, 0.2, 0.18]} rotation={[0, Math.PI/4, 0]} />
+                </>
+            );
+
+          case BuildingType.Clinic:
+            return (
+                <>
+                    <mesh {...commonProps} material={mainMat} geometry={boxGeo} position={[0, 0.35, 0]} scale={[0.8, 0.7, 0.7]} />
+                    <WindowBlock position={[0, 0.45, 0.36]} scale={[0.6, 0.15, 0.05]} />
+                    {/* Red cross on the roof */}
+                    <mesh material={new THREE.MeshStandardMaterial({ color: '#dc2626' })} geometry={boxGeo} position={[0, 0.72, 0]} scale={[0.4, 0.03, 0.12]} />
+                    <mesh material={new THREE.MeshStandardMaterial({ color: '#dc2626' })} geometry={boxGeo} position={[0, 0.72, 0]} scale={[0.12, 0.03, 0.4]} />
+                </>
+            );
+
+          case BuildingType.School:
+            return (
+                <>
+                    <mesh {...commonProps} material={mainMat} geometry={boxGeo} position={[-0.15, 0.25, 0]} scale={[0.55, 0.5, 0.85]} />
+                    <mesh {...commonProps} material={mainMat} geometry={boxGeo} position={[0.2, 0.25, -0.25]} scale={[0.4, 0.5, 0.35]} />
+                    <WindowBlock position={[-0.15, 0.3, 0.43]} scale={[0.4, 0.12, 0.05]} />
+                    {/* Bell tower */}
+                    <mesh {...commonProps} material={accentMat} geometry={boxGeo} position={[-0.15, 0.6, 0]} scale={[0.15, 0.2, 0.15]} />
+                    <mesh {...commonProps} material={roofMat} geometry={coneGeo} position={[-0.15, 0.8, 0]} scale={[0.15, 0.2, 0.15]} rotation={[0, Math.PI/4, 0]} />
+                    {/* Playground */}
+                    <mesh receiveShadow material={new THREE.MeshStandardMaterial({ color: '#9ca3af' })} geometry={boxGeo} position={[0.2, 0.01, 0.2]} scale={[0.4, 0.02, 0.4]} />
+                </>
+            );
+
           case BuildingType.Rail:
           case BuildingType.Road:
           case BuildingType.Bridge:
@@ -277,183 +420,164 @@ const ProceduralBuilding = React.memo(({ type, baseColor, x, y, opacity = 1, tra
 
 const carColors = ['#ef4444', '#3b82f6', '#eab308', '#ffffff', '#1f2937', '#f97316'];
 
-const TrafficSystem = ({ grid }: { grid: Grid }) => {
-  const roadTiles = useMemo(() => {
-    const roads: {x: number, y: number}[] = [];
-    grid.forEach(row => row.forEach(tile => {
-      if (tile.buildingType === BuildingType.Road || tile.buildingType === BuildingType.Bridge) roads.push({x: tile.x, y: tile.y});
-    }));
-    return roads;
-  }, [grid]);
+// Cars drive the commuter routes the simulation uses, more of them as traffic grows
+const MAX_VISIBLE_CARS = 60;
+const CARS_PER_VISIBLE_CAR = 5;
 
-  const carCount = Math.min(roadTiles.length, 30);
+interface CarState {
+  path: number[];
+  idx: number;
+  progress: number;
+  speed: number;
+}
+
+const TrafficSystem = ({ grid, traffic, speed }: { grid: Grid, traffic: number[], speed: GameSpeed }) => {
+  // Cars follow the routes the next tick will load, which steer around today's jams
+  const routes = useMemo(() => getTripRoutes(grid, traffic).filter(r => r.path.length > 1), [grid, traffic]);
+  const totalCars = useMemo(() => traffic.reduce((sum, cars) => sum + cars, 0), [traffic]);
+
+  const carCount = routes.length === 0 ? 0 : Math.min(MAX_VISIBLE_CARS, Math.max(1, Math.ceil(totalCars / CARS_PER_VISIBLE_CAR)));
   const carsRef = useRef<THREE.InstancedMesh>(null);
-  const carsState = useRef<Float32Array>(new Float32Array(0)); 
+  const carsState = useRef<CarState[]>([]);
   const dummy = useMemo(() => new THREE.Object3D(), []);
-  const colors = useMemo(() => new Float32Array(0), []);
+
+  // Busy routes get picked more often
+  const pickPath = useCallback(() => {
+    const weights = routes.map(r => r.share);
+    let roll = Math.random() * weights.reduce((a, b) => a + b, 0);
+    const route = routes.find((_, i) => (roll -= weights[i]) < 0) ?? routes[0];
+    return Math.random() < 0.5 ? route.path : [...route.path].reverse(); // Morning and evening commutes
+  }, [routes]);
+  // Rerouting only changes where cars go next; the fleet is reset when the map or car count changes
+  const pickPathRef = useRef(pickPath);
+  pickPathRef.current = pickPath;
 
   useEffect(() => {
-    if (roadTiles.length < 2) return;
-    carsState.current = new Float32Array(carCount * 6);
-    const newColors = new Float32Array(carCount * 3);
+    if (carCount === 0) return;
+    carsState.current = Array.from({ length: carCount }, () => {
+      const path = pickPathRef.current();
+      return { path, idx: Math.floor(Math.random() * (path.length - 1)), progress: Math.random(), speed: getRandomRange(0.01, 0.03) };
+    });
 
+    const newColors = new Float32Array(carCount * 3);
     for (let i = 0; i < carCount; i++) {
-      const startNode = roadTiles[Math.floor(Math.random() * roadTiles.length)];
-      carsState.current[i*6 + 0] = startNode.x;
-      carsState.current[i*6 + 1] = startNode.y;
-      carsState.current[i*6 + 2] = startNode.x;
-      carsState.current[i*6 + 3] = startNode.y;
-      carsState.current[i*6 + 4] = 1; // force pick new target
-      carsState.current[i*6 + 5] = getRandomRange(0.01, 0.03); // speed
-
       const color = new THREE.Color(carColors[Math.floor(Math.random() * carColors.length)]);
       newColors[i*3] = color.r; newColors[i*3+1] = color.g; newColors[i*3+2] = color.b;
     }
-
     if (carsRef.current) {
         carsRef.current.instanceColor = new THREE.InstancedBufferAttribute(newColors, 3);
     }
-  }, [roadTiles, carCount]);
+  }, [carCount, grid]);
 
   useFrame(() => {
-    if (!carsRef.current || roadTiles.length < 2 || carsState.current.length === 0) return;
-
-    for (let i = 0; i < carCount; i++) {
-      const idx = i * 6;
-      let curX = carsState.current[idx];
-      let curY = carsState.current[idx+1];
-      let tarX = carsState.current[idx+2];
-      let tarY = carsState.current[idx+3];
-      let progress = carsState.current[idx+4];
-      const speed = carsState.current[idx+5];
-
-      progress += speed;
-
-      if (progress >= 1) {
-        curX = tarX;
-        curY = tarY;
-        progress = 0;
-        
-        const neighbors = roadTiles.filter(t => 
-          (Math.abs(t.x - curX) === 1 && t.y === curY) || 
-          (Math.abs(t.y - curY) === 1 && t.x === curX)
-        );
-
-        if (neighbors.length > 0) {
-            // Simple pathfinding
-            const valid = neighbors.length > 1 
-                ? neighbors.filter(n => Math.abs(n.x - carsState.current[idx]) > 0.1 || Math.abs(n.y - carsState.current[idx+1]) > 0.1)
-                : neighbors;
-            
-            const next = valid.length > 0 
-                ? valid[Math.floor(Math.random() * valid.length)]
-                : neighbors[0];
-            
-            tarX = next.x;
-            tarY = next.y;
-        } else {
-            const rnd = roadTiles[Math.floor(Math.random() * roadTiles.length)];
-            curX = rnd.x; curY = rnd.y; tarX = rnd.x; tarY = rnd.y;
+    if (!carsRef.current || carsState.current.length === 0) return;
+    const size = grid.length;
+
+    carsState.current.forEach((car, i) => {
+      // Jammed roads slow cars down; they keep pace with the game clock
+      const jam = congestionLevel(traffic[car.path[car.idx]] ?? 0);
+      car.progress += car.speed * speed * (1 - 0.7 * jam);
+
+      if (car.progress >= 1) {
+        car.progress = 0;
+        car.idx++;
+        if (car.idx >= car.path.length - 1) {
+          car.path = pickPathRef.current();
+          car.idx = 0;
         }
       }
 
-      carsState.current[idx] = curX;
-      carsState.current[idx+1] = curY;
-      carsState.current[idx+2] = tarX;
-      carsState.current[idx+3] = tarY;
-      carsState.current[idx+4] = progress;
+      const cur = tileCoords(car.path[car.idx], size);
+      const tar = tileCoords(car.path[car.idx + 1], size);
 
       // Interpolate position
-      const gx = MathUtils.lerp(curX, tarX, progress);
-      const gy = MathUtils.lerp(curY, tarY, progress);
+      const gx = MathUtils.lerp(cur.x, tar.x, car.progress);
+      const gy = MathUtils.lerp(cur.y, tar.y, car.progress);
 
       // Determine driving side offset
-      const dx = tarX - curX;
-      const dy = tarY - curY;
+      const dx = tar.x - cur.x;
+      const dy = tar.y - cur.y;
       const angle = Math.atan2(dy, dx);
-      
+
       const offsetAmt = 0.15;
       const len = Math.sqrt(dx*dx + dy*dy) || 1;
       const offX = (-dy/len) * offsetAmt;
       const offY = (dx/len) * offsetAmt;
 
-      const [wx, _, wz] = gridToWorld(gx + offX, gy + offY);
+      const [wx, _, wz] = gridToWorld(gx + offX, gy + offY, size);
 
       dummy.position.set(wx, -0.3 + 0.075, wz);
       dummy.rotation.set(0, -angle, 0);
-      dummy.scale.set(0.5, 0.15, 0.3); 
-      
+      dummy.scale.set(0.5, 0.15, 0.3);
+
       dummy.updateMatrix();
-      carsRef.current.setMatrixAt(i, dummy.matrix);
-    }
+      carsRef.current!.setMatrixAt(i, dummy.matrix);
+    });
     carsRef.current.instanceMatrix.needsUpdate = true;
   });
 
-  if (roadTiles.length < 2) return null;
+  if (carCount === 0) return null;
 
   return (
-    <instancedMesh ref={carsRef} args={[boxGeo, undefined, carCount]} castShadow>
+    <instancedMesh key={carCount} ref={carsRef} args={[boxGeo, undefined, carCount]} castShadow>
       <meshStandardMaterial roughness={0.5} metalness={0.3} />
     </instancedMesh>
   );
 };
 
-const TrainSystem = ({ grid }: { grid: Grid }) => {
-    // Collect rail tiles (BuildingType.Rail)
-    const railTiles = useMemo(() => {
-        const tiles: {x: number, y: number}[] = [];
-        grid.forEach(row => row.forEach(tile => {
-            if (tile.buildingType === BuildingType.Rail || tile.isRail) tiles.push({x: tile.x, y: tile.y});
-        }));
-        
-        // Simple sorting for visualization (Not true graph pathfinding)
-        // Try to sort by X then Y to create a contiguous flow if it's a line
-        // If it's a complex network, the train will teleport between segments, which is acceptable.
-        return tiles.sort((a,b) => (a.x - b.x) + (a.y - b.y) * 0.1); 
-    }, [grid]);
+// --- Map Overlays ---
+interface OverlayData {
+  grid: Grid;
+  traffic: number[];
+  landValue: number[];
+  pollution: SimState['pollution'];
+  happiness: number[];
+  coverage: ServiceCoverage;
+}
 
+// Where a tile sits on the active overlay's 0..1 scale, or null to leave it untinted
+const overlayValue = (overlay: Exclude<MapOverlay, 'none'>, data: OverlayData, tile: TileData): number | null => {
+  const index = tileIndex(tile.x, tile.y, data.grid.length);
+  switch (overlay) {
+    case 'traffic': return isRoadTile(tile) ? Math.min(1, (data.traffic[index] ?? 0) / (2 * ROAD_CAPACITY)) : null;
+    case 'landValue': return MathUtils.clamp(landValueMultiplier(data, tile) - 0.5, 0, 1);
+    case 'pollution': return Math.max(data.pollution.air[index] ?? 0, data.pollution.noise[index] ?? 0);
+    case 'happiness': return data.happiness[index] ?? null;
+    case 'coverage': return averageCoverage(data.coverage, index);
+  }
+};
+
+const heatColor = (hues: [number, number], value: number) =>
+  `#${new THREE.Color().setHSL(MathUtils.lerp(hues[0], hues[1], value), 0.9, 0.5).getHexString()}`;
+
+// Trains follow the routes the simulation gives them and glide between ticks
+const TRAIN_SPEED = TRAIN_TILES_PER_TICK / (TICK_RATE_MS / 1000); // tiles per second at 1×
+
+const TrainCar = ({ train, mapSize, speed }: { train: Train, mapSize: number, speed: GameSpeed }) => {
     const trainRef = useRef<THREE.Group>(null);
-    const speed = 3; // tiles per second
-    const progressRef = useRef(0);
+    const shownRef = useRef({ route: train.route, progress: train.progress });
 
     useFrame((state, delta) => {
-        if (!trainRef.current || railTiles.length < 2) return;
-        
-        progressRef.current += delta * speed;
-        const totalLen = railTiles.length;
-        // Ping pong movement
-        const rawPos = progressRef.current % (totalLen * 2);
-        const pos = rawPos > totalLen ? (totalLen * 2) - rawPos : rawPos;
-
-        const idx = Math.floor(pos);
-        const nextIdx = Math.min(idx + 1, totalLen - 1);
-        const t = pos - idx;
-
-        const cur = railTiles[idx];
-        const next = railTiles[nextIdx];
-
-        // If gap is too large, snap
-        if (Math.abs(cur.x - next.x) > 1.5 || Math.abs(cur.y - next.y) > 1.5) {
-             // Jump
+        if (!trainRef.current) return;
+        const shown = shownRef.current;
+        // A new route starts at the station the last one ended at, so snap to it
+        if (shown.route !== train.route) {
+            shown.route = train.route;
+            shown.progress = train.progress;
         }
+        shown.progress = Math.min(shown.progress + delta * TRAIN_SPEED * speed, train.progress + TRAIN_TILES_PER_TICK, train.route.length - 1);
 
-        const x = MathUtils.lerp(cur.x, next.x, t);
-        const y = MathUtils.lerp(cur.y, next.y, t);
-
-        const [wx, _, wz] = gridToWorld(x, y);
-        
-        // Look ahead for rotation
-        const dx = next.x - cur.x;
-        const dy = next.y - cur.y;
-        let angle = Math.atan2(dy, dx); 
-        if (rawPos > totalLen) angle += Math.PI; // Reverse rotation on return
+        const idx = Math.floor(shown.progress);
+        const nextIdx = Math.min(idx + 1, train.route.length - 1);
+        const t = shown.progress - idx;
+        const cur = tileCoords(train.route[idx], mapSize);
+        const next = tileCoords(train.route[nextIdx], mapSize);
 
+        const [wx, _, wz] = gridToWorld(MathUtils.lerp(cur.x, next.x, t), MathUtils.lerp(cur.y, next.y, t), mapSize);
         trainRef.current.position.set(wx, -0.2, wz);
-        trainRef.current.rotation.y = -angle + Math.PI/2; 
+        if (nextIdx !== idx) trainRef.current.rotation.y = -Math.atan2(next.y - cur.y, next.x - cur.x) + Math.PI / 2;
     });
 
-    if (railTiles.length === 0) return null;
-
     return (
         <group ref={trainRef}>
             {/* Engine */}
@@ -469,141 +593,231 @@ const TrainSystem = ({ grid }: { grid: Grid }) => {
                 <cylinderGeometry args={[0.1, 0.1, 0.4]} />
                 <meshStandardMaterial color="#333" />
             </mesh>
-             {/* Carriage 1 */}
+             {/* Carriage */}
             <mesh position={[0, 0.25, -0.6]} castShadow>
                 <boxGeometry args={[0.5, 0.45, 0.8]} />
                 <meshStandardMaterial color="#3b82f6" />
             </mesh>
-             {/* Carriage 2 */}
-             <mesh position={[0, 0.25, -1.5]} castShadow>
-                <boxGeometry args={[0.5, 0.45, 0.8]} />
-                <meshStandardMaterial color="#3b82f6" />
-            </mesh>
         </group>
-    )
-}
+    );
+};
+
+const TrainSystem = ({ grid, trains, speed }: { grid: Grid, trains: Train[], speed: GameSpeed }) => {
+    // Switch stands mark track junctions
+    const switches = useMemo(() => buildRailNetwork(grid).switches.map(node => tileCoords(node, grid.length)), [grid]);
+
+    return (
+        <>
+            {trains.map(train => <TrainCar key={train.id} train={train} mapSize={grid.length} speed={speed} />)}
+            {switches.map(({ x, y }) => {
+                const [wx, _, wz] = gridToWorld(x, y, grid.length);
+                return (
+                    <mesh key={`${x}-${y}`} position={[wx + 0.38, -0.1, wz + 0.38]} scale={[0.08, 0.3, 0.08]}>
+                        <boxGeometry />
+                        <meshStandardMaterial color="#facc15" />
+                    </mesh>
+                );
+            })}
+        </>
+    );
+};
+
+// --- Event effects ---
+
+// Shallow water over a flooded tile, gently rising and falling
+const FloodWater = ({ offset }: { offset: number }) => {
+    const ref = useRef<THREE.Mesh>(null);
+    useFrame((state) => {
+        if (ref.current) ref.current.position.y = -0.12 + Math.sin(state.clock.elapsedTime * 1.5 + offset) * 0.03;
+    });
+    return (
+        <mesh ref={ref} rotation={[-Math.PI / 2, 0, 0]}>
+            <planeGeometry args={[1, 1]} />
+            <meshStandardMaterial color="#3b82f6" transparent opacity={0.6} roughness={0.1} metalness={0.3} />
+        </mesh>
+    );
+};
+
+const FLAME_TONGUES: { position: [number, number]; color: string }[] = [
+    { position: [-0.15, 0.1], color: '#f97316' },
+    { position: [0.15, -0.05], color: '#ef4444' },
+    { position: [0, 0.15], color: '#facc15' },
+];
+
+const Flames = ({ scale = 1 }: { scale?: number }) => {
+    const ref = useRef<THREE.Group>(null);
+    useFrame((state) => {
+        ref.current?.children.forEach((child, i) => {
+            child.scale.y = (0.5 + Math.abs(Math.sin(state.clock.elapsedTime * 8 + i * 2.1)) * 0.4) * scale;
+        });
+    });
+    return (
+        <group ref={ref}>
+            {FLAME_TONGUES.map(({ position: [fx, fz], color }, i) => (
+                <mesh key={i} geometry={coneGeo} position={[fx * scale, 0.1, fz * scale]} scale={[0.15 * scale, 0.5 * scale, 0.15 * scale]}>
+                    <meshBasicMaterial color={color} transparent opacity={0.85} />
+                </mesh>
+            ))}
+            <pointLight color="#f97316" intensity={1.5} distance={2} position={[0, 0.4, 0]} />
+        </group>
+    );
+};
+
+// Dark smoke rising from an accident site
+const SmokePlume = () => {
+    const ref = useRef<THREE.Group>(null);
+    useFrame((_, delta) => {
+        ref.current?.children.forEach((child) => {
+            child.position.y += delta * 0.6;
+            child.scale.addScalar(delta * 0.15);
+            if (child.position.y > 2) {
+                child.position.y = 0.3;
+                child.scale.setScalar(0.15);
+            }
+        });
+    });
+    return (
+        <group ref={ref}>
+            {[0, 1, 2, 3].map(i => (
+                <mesh key={i} geometry={sphereGeo} position={[(i % 2) * 0.1, 0.3 + i * 0.45, 0]} scale={0.15 + i * 0.07}>
+                    <meshStandardMaterial color="#1f2937" transparent opacity={0.7} flatShading />
+                </mesh>
+            ))}
+        </group>
+    );
+};
+
+// A spinning gold coin over each business while a boom lasts
+const BoomCoin = ({ offset }: { offset: number }) => {
+    const ref = useRef<THREE.Mesh>(null);
+    useFrame((state) => {
+        if (!ref.current) return;
+        ref.current.rotation.y = state.clock.elapsedTime * 3 + offset;
+        ref.current.position.y = 1.6 + Math.sin(state.clock.elapsedTime * 2 + offset) * 0.1;
+    });
+    return (
+        <mesh ref={ref} geometry={cylinderGeo} rotation={[Math.PI / 2, 0, 0]} scale={[0.18, 0.04, 0.18]}>
+            <meshStandardMaterial color="#facc15" emissive="#f59e0b" emissiveIntensity={0.5} metalness={0.8} roughness={0.2} />
+        </mesh>
+    );
+};
+
+const EVENT_EFFECTS: Record<CityEventKind, (offset: number) => React.ReactNode> = {
+    flood: (offset) => <FloodWater offset={offset} />,
+    fire: () => <Flames />,
+    accident: () => <><Flames scale={0.6} /><SmokePlume /></>,
+    boom: (offset) => <BoomCoin offset={offset} />,
+};
+
+const EventSystem = ({ events, mapSize }: { events: CityEvent[], mapSize: number }) => (
+    <>
+        {events.flatMap((event, e) => event.tiles.map(index => {
+            const { x, y } = tileCoords(index, mapSize);
+            const [wx, _, wz] = gridToWorld(x, y, mapSize);
+            return (
+                <group key={`${e}-${event.kind}-${index}`} position={[wx, 0, wz]}>
+                    {EVENT_EFFECTS[event.kind](getHash(x, y) * Math.PI * 2)}
+                </group>
+            );
+        }))}
+    </>
+);
 
 const clothesColors = ['#ef4444', '#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#ffffff'];
 
-const PopulationSystem = ({ population, grid }: { population: number, grid: Grid }) => {
-    const agentCount = Math.min(Math.floor(population / 2), 300); 
+const PopulationSystem = ({ population, grid, timeOfDay }: { population: number, grid: Grid, timeOfDay: number }) => {
+    const agentCount = Math.min(Math.floor(population / RESIDENTS_PER_COMMUTER), MAX_COMMUTERS);
+    const routes = useMemo(() => getTripRoutes(grid), [grid]);
     const meshRef = useRef<THREE.InstancedMesh>(null);
-    
-    // Find tiles where people can walk (Roads, Parks, empty owned ground)
-    const walkableTiles = useMemo(() => {
-        const tiles: {x: number, y: number}[] = [];
-        grid.forEach(row => row.forEach(tile => {
-          if (tile.owned && !tile.isWater && !tile.isRail && (tile.buildingType === BuildingType.Road || tile.buildingType === BuildingType.Park || tile.buildingType === BuildingType.None)) {
-            tiles.push({x: tile.x, y: tile.y});
-          }
-        }));
-        return tiles;
-    }, [grid]);
-    
-    const agentsState = useRef<Float32Array>(new Float32Array(0));
+    const rngRef = useRef(createRng(1));
+    const [commuters, setCommuters] = useState<Commuter[]>([]);
+    const shownRef = useRef(new Map<number, number>()); // Smoothed walk progress by commuter id
+    const timeRef = useRef(timeOfDay);
+    timeRef.current = timeOfDay;
     const dummy = useMemo(() => new THREE.Object3D(), []);
-    
-    useEffect(() => {
-        if (agentCount === 0 || walkableTiles.length === 0) return;
-        agentsState.current = new Float32Array(agentCount * 6);
-        const newColors = new Float32Array(agentCount * 3);
-
-        for(let i=0; i<agentCount; i++) {
-            const t = walkableTiles[Math.floor(Math.random() * walkableTiles.length)];
-            // Spawn with random offset in tile
-            const x = t.x + getRandomRange(-0.4, 0.4);
-            const y = t.y + getRandomRange(-0.4, 0.4);
-
-            agentsState.current[i*6+0] = x;
-            agentsState.current[i*6+1] = y;
-            
-            // Initial target
-            const tt = walkableTiles[Math.floor(Math.random() * walkableTiles.length)];
-            agentsState.current[i*6+2] = tt.x + getRandomRange(-0.4, 0.4);
-            agentsState.current[i*6+3] = tt.y + getRandomRange(-0.4, 0.4);
-            
-            agentsState.current[i*6+4] = getRandomRange(0.005, 0.015); // speed
-            agentsState.current[i*6+5] = Math.random() * Math.PI * 2; // anim
 
-            const c = new THREE.Color(clothesColors[Math.floor(Math.random() * clothesColors.length)]);
-            newColors[i*3] = c.r; newColors[i*3+1] = c.g; newColors[i*3+2] = c.b;
-        }
+    // The pool survives population and map changes; only the difference is added or removed
+    useEffect(() => {
+        setCommuters(prev => syncCommuters(prev, routes, agentCount, rngRef.current));
+    }, [routes, agentCount]);
 
-        if (meshRef.current) {
-            meshRef.current.instanceColor = new THREE.InstancedBufferAttribute(newColors, 3);
-        }
-    }, [agentCount, walkableTiles]);
+    useEffect(() => {
+        if (!meshRef.current || commuters.length === 0) return;
+        const colors = new Float32Array(commuters.length * 3);
+        commuters.forEach((c, i) => {
+            const color = new THREE.Color(clothesColors[c.id % clothesColors.length]);
+            colors[i*3] = color.r; colors[i*3+1] = color.g; colors[i*3+2] = color.b;
+        });
+        meshRef.current.instanceColor = new THREE.InstancedBufferAttribute(colors, 3);
+    }, [commuters]);
 
-    useFrame((state) => {
-        if (!meshRef.current || agentCount === 0 || agentsState.current.length === 0) return;
+    useFrame((state, delta) => {
+        if (!meshRef.current || commuters.length === 0) return;
         const time = state.clock.elapsedTime;
-
-        for(let i=0; i<agentCount; i++) {
-            const idx = i*6;
-            let x = agentsState.current[idx];
-            let y = agentsState.current[idx+1];
-            let tx = agentsState.current[idx+2];
-            let ty = agentsState.current[idx+3];
-            const speed = agentsState.current[idx+4];
-            const animOffset = agentsState.current[idx+5];
-
-            const dx = tx - x;
-            const dy = ty - y;
-            const dist = Math.sqrt(dx*dx + dy*dy);
-
-            if (dist < 0.1) {
-                // Pick new random target from walkable
-                if (walkableTiles.length > 0) {
-                    const tt = walkableTiles[Math.floor(Math.random() * walkableTiles.length)];
-                    tx = tt.x + getRandomRange(-0.4, 0.4);
-                    ty = tt.y + getRandomRange(-0.4, 0.4);
-                    agentsState.current[idx+2] = tx;
-                    agentsState.current[idx+3] = ty;
-                }
-            } else {
-                x += (dx/dist) * speed;
-                y += (dy/dist) * speed;
-                agentsState.current[idx] = x;
-                agentsState.current[idx+1] = y;
+        const size = grid.length;
+        const shownById = shownRef.current;
+
+        commuters.forEach((commuter, i) => {
+            const target = commuterProgress(commuter, timeRef.current);
+            if (target === null) {
+                // Indoors
+                shownById.delete(commuter.id);
+                dummy.scale.set(0, 0, 0);
+                dummy.updateMatrix();
+                meshRef.current!.setMatrixAt(i, dummy.matrix);
+                return;
             }
-
-            const [wx, _, wz] = gridToWorld(x, y);
+            // timeOfDay only changes a few times a second, so ease toward it
+            const prev = shownById.get(commuter.id) ?? target;
+            const shown = prev + (target - prev) * Math.min(1, delta * 5);
+            shownById.set(commuter.id, shown);
+
+            const idx = Math.min(Math.floor(shown), commuter.walk.length - 2);
+            const t = shown - idx;
+            const cur = tileCoords(commuter.walk[idx], size);
+            const next = tileCoords(commuter.walk[idx + 1], size);
+            const dx = next.x - cur.x;
+            const dy = next.y - cur.y;
+
+            // Keep to the pavement at the side of the road
+            const side = 0.3 + (commuter.id % 5) * 0.02;
+            const [wx, _, wz] = gridToWorld(MathUtils.lerp(cur.x, next.x, t) - dy * side, MathUtils.lerp(cur.y, next.y, t) + dx * side, size);
 
             // Walking bounce
-            const bounce = Math.abs(Math.sin(time * 10 + animOffset)) * 0.03;
+            const bounce = Math.abs(Math.sin(time * 10 + commuter.id)) * 0.03;
 
             // Person dimensions
             const height = 0.2;
             const width = 0.08;
             // Ground level approx -0.3 to -0.4
-            const groundY = -0.35; 
+            const groundY = -0.35;
 
             dummy.position.set(wx, groundY + height/2 + bounce, wz);
             dummy.rotation.set(0, -Math.atan2(dy, dx), 0);
             dummy.scale.set(width, height, width);
-            
+
             dummy.updateMatrix();
-            meshRef.current.setMatrixAt(i, dummy.matrix);
-        }
+            meshRef.current!.setMatrixAt(i, dummy.matrix);
+        });
         meshRef.current.instanceMatrix.needsUpdate = true;
     });
 
-    if (agentCount === 0) return null;
+    if (commuters.length === 0) return null;
 
     return (
-        <instancedMesh ref={meshRef} args={[boxGeo, undefined, agentCount]} castShadow>
+        <instancedMesh key={commuters.length} ref={meshRef} args={[boxGeo, undefined, commuters.length]} castShadow>
             <meshStandardMaterial roughness={0.8} />
         </instancedMesh>
-    )
+    );
 };
 
 // Clouds & Birds
-const Cloud = ({ position, scale, speed }: { position: [number, number, number], scale: number, speed: number }) => {
+const Cloud = ({ position, scale, speed, mapSize }: { position: [number, number, number], scale: number, speed: number, mapSize: number }) => {
     const group = useRef<THREE.Group>(null);
     useFrame((state, delta) => {
         if (group.current) {
             group.current.position.x += speed * delta;
-            if (group.current.position.x > GRID_SIZE * 1.5) group.current.position.x = -GRID_SIZE * 1.5;
+            if (group.current.position.x > mapSize * 1.5) group.current.position.x = -mapSize * 1.5;
         }
     });
 
@@ -623,13 +837,13 @@ const Cloud = ({ position, scale, speed }: { position: [number, number, number],
     )
 }
 
-const Bird = ({ position, speed, offset }: { position: [number, number, number], speed: number, offset: number }) => {
+const Bird = ({ position, speed, offset, mapSize }: { position: [number, number, number], speed: number, offset: number, mapSize: number }) => {
     const ref = useRef<THREE.Group>(null);
     useFrame((state) => {
         if(ref.current) {
             const time = state.clock.elapsedTime + offset;
-            ref.current.position.x = position[0] + Math.sin(time * speed) * GRID_SIZE;
-            ref.current.position.z = position[1] + Math.cos(time * speed) * GRID_SIZE/2;
+            ref.current.position.x = position[0] + Math.sin(time * speed) * mapSize;
+            ref.current.position.z = position[1] + Math.cos(time * speed) * mapSize/2;
             ref.current.rotation.y = -time * speed + Math.PI;
             ref.current.scale.y = 1 + Math.sin(time * 15) * 0.3;
         }
@@ -643,7 +857,7 @@ const Bird = ({ position, speed, offset }: { position: [number, number, number],
     )
 }
 
-const EnvironmentEffects = ({ timeOfDay }: { timeOfDay: number }) => {
+const EnvironmentEffects = ({ timeOfDay, mapSize }: { timeOfDay: number, mapSize: number }) => {
     // 0 = dawn, 0.5 = noon, 1.0 = dusk
     // Smooth transitions using Sine waves
     const cyclePos = Math.sin(timeOfDay * Math.PI); // 0 -> 1 -> 0
@@ -681,8 +895,8 @@ const EnvironmentEffects = ({ timeOfDay }: { timeOfDay: number }) => {
                 intensity={sunIntensity}
                 color={lightColor}
                 shadow-mapSize={[2048, 2048]}
-                shadow-camera-left={-25} shadow-camera-right={25}
-                shadow-camera-top={25} shadow-camera-bottom={-25}
+                shadow-camera-left={-mapSize} shadow-camera-right={mapSize}
+                shadow-camera-top={mapSize} shadow-camera-bottom={-mapSize}
              />
 
              {/* Stars (Subtle, only when sun is low) */}
@@ -693,20 +907,20 @@ const EnvironmentEffects = ({ timeOfDay }: { timeOfDay: number }) => {
              )}
 
             {/* Clouds */}
-            <Cloud position={[-12, 8, 4]} scale={1.5} speed={0.3} />
-            <Cloud position={[5, 9, -8]} scale={1.2} speed={0.5} />
-            <Cloud position={[15, 7, 10]} scale={1.8} speed={0.2} />
+            <Cloud position={[-12, 8, 4]} scale={1.5} speed={0.3} mapSize={mapSize} />
+            <Cloud position={[5, 9, -8]} scale={1.2} speed={0.5} mapSize={mapSize} />
+            <Cloud position={[15, 7, 10]} scale={1.8} speed={0.2} mapSize={mapSize} />
             
             {/* Birds */}
             <group position={[0, 0, 0]} scale={0.8}>
-                <Bird position={[0, 0, 10]} speed={0.6} offset={0} />
-                <Bird position={[0, 0, 10]} speed={0.6} offset={1.2} />
-                <Bird position={[0, 0, 10]} speed={0.6} offset={2.5} />
+                <Bird position={[0, 0, 10]} speed={0.6} offset={0} mapSize={mapSize} />
+                <Bird position={[0, 0, 10]} speed={0.6} offset={1.2} mapSize={mapSize} />
+                <Bird position={[0, 0, 10]} speed={0.6} offset={2.5} mapSize={mapSize} />
             </group>
 
             {/* Ocean underlayer (for river) */}
             <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -0.6, 0]} receiveShadow>
-                <planeGeometry args={[GRID_SIZE * 4, GRID_SIZE * 4]} />
+                <planeGeometry args={[mapSize * 4, mapSize * 4]} />
                 <meshStandardMaterial color="#3b82f6" roughness={0.1} metalness={0.5} opacity={0.8} transparent />
             </mesh>
         </group>
@@ -733,9 +947,9 @@ const RoadMarkings = React.memo(({ x, y, grid, yOffset }: { x: number; y: number
   const lineGeo = useMemo(() => new THREE.PlaneGeometry(0.1, 0.5), []);
 
   const hasUp = y > 0 && (grid[y - 1][x].buildingType === BuildingType.Road || grid[y-1][x].buildingType === BuildingType.Bridge);
-  const hasDown = y < GRID_SIZE - 1 && (grid[y + 1][x].buildingType === BuildingType.Road || grid[y+1][x].buildingType === BuildingType.Bridge);
+  const hasDown = y < grid.length - 1 && (grid[y + 1][x].buildingType === BuildingType.Road || grid[y+1][x].buildingType === BuildingType.Bridge);
   const hasLeft = x > 0 && (grid[y][x - 1].buildingType === BuildingType.Road || grid[y][x-1].buildingType === BuildingType.Bridge);
-  const hasRight = x < GRID_SIZE - 1 && (grid[y][x + 1].buildingType === BuildingType.Road || grid[y][x+1].buildingType === BuildingType.Bridge);
+  const hasRight = x < grid.length - 1 && (grid[y][x + 1].buildingType === BuildingType.Road || grid[y][x+1].buildingType === BuildingType.Bridge);
 
   const connections = [hasUp, hasDown, hasLeft, hasRight].filter(Boolean).length;
   
@@ -766,8 +980,9 @@ interface GroundTileProps {
     grid: Grid;
     onHover: (x: number, y: number) => void;
     onLeave: () => void;
-    onClick: (x: number, y: number) => void;
+    onPress: (x: number, y: number) => void;
     isLandTool: boolean;
+    tint?: string; // Heatmap colour from the active map overlay
 }
 
 const RailTracks = () => (
@@ -825,9 +1040,9 @@ const BridgeMesh = ({ type }: { type: BuildingType }) => (
 )
 
 // Ground Tile: Handles pointer events and forms base terrain
-const GroundTile = React.memo(({ tile, grid, onHover, onLeave, onClick, isLandTool }: GroundTileProps) => {
-  const { x, y, buildingType, owned, isWater, isRail } = tile;
-  const [wx, _, wz] = gridToWorld(x, y);
+const GroundTile = React.memo(({ tile, grid, onHover, onLeave, onPress, isLandTool, tint }: GroundTileProps) => {
+  const { x, y, buildingType, owned, isWater, isRail, isHighway } = tile;
+  const [wx, _, wz] = gridToWorld(x, y, grid.length);
   
   let color = '#10b981';
   let topY = -0.3; 
@@ -840,7 +1055,7 @@ const GroundTile = React.memo(({ tile, grid, onHover, onLeave, onClick, isLandTo
       topY = -0.4;
       thickness = 0.4;
       materialProps = { roughness: 0.1, metalness: 0.5, opacity: 0.8, transparent: true };
-  } else if (!owned) {
+  } else if (!owned && !isHighway) {
       color = '#064e3b'; // Dark green for unowned
       // Add randomness to unowned texture look?
       const noise = getHash(x, y);
@@ -861,6 +1076,8 @@ const GroundTile = React.memo(({ tile, grid, onHover, onLeave, onClick, isLandTo
     topY = -0.28;
   }
 
+  if (tint && !isWater) color = tint;
+
   // Highlights for Land Tool
   if (isLandTool && !isWater) {
       if (owned) {
@@ -870,9 +1087,9 @@ const GroundTile = React.memo(({ tile, grid, onHover, onLeave, onClick, isLandTo
           // Can buy? (If adjacent to owned)
            const hasOwnedNeighbor = 
                 (x > 0 && grid[y][x-1].owned) ||
-                (x < GRID_SIZE - 1 && grid[y][x+1].owned) ||
+                (x < grid.length - 1 && grid[y][x+1].owned) ||
                 (y > 0 && grid[y-1][x].owned) ||
-                (y < GRID_SIZE - 1 && grid[y+1][x].owned);
+                (y < grid.length - 1 && grid[y+1][x].owned);
             
             if (hasOwnedNeighbor) color = '#a7f3d0'; // Light green tint
       }
@@ -891,7 +1108,7 @@ const GroundTile = React.memo(({ tile, grid, onHover, onLeave, onClick, isLandTo
                <mesh position={[0,-0.3,0]} visible={false} 
                     onPointerEnter={(e) => { e.stopPropagation(); onHover(x, y); }}
                     onPointerOut={(e) => { e.stopPropagation(); onLeave(); }}
-                    onPointerDown={(e) => { e.stopPropagation(); if (e.button === 0) onClick(x, y); }}
+                    onPointerDown={(e) => { e.stopPropagation(); if (e.button === 0) onPress(x, y); }}
                >
                   <boxGeometry args={[1, 0.5, 1]} />
                </mesh>
@@ -908,7 +1125,7 @@ const GroundTile = React.memo(({ tile, grid, onHover, onLeave, onClick, isLandTo
             onPointerOut={(e) => { e.stopPropagation(); onLeave(); }}
             onPointerDown={(e) => {
                 e.stopPropagation();
-                if (e.button === 0) onClick(x, y);
+                if (e.button === 0) onPress(x, y);
             }}
         >
         <boxGeometry args={[1, thickness, 1]} />
@@ -920,7 +1137,7 @@ const GroundTile = React.memo(({ tile, grid, onHover, onLeave, onClick, isLandTo
         {(buildingType === BuildingType.Rail || isRail) && !isWater && <RailTracks />}
         
         {/* Unowned land indicator (Tree or rock) */}
-        {!owned && !isWater && !isRail && getHash(x,y) > 0.7 && (
+        {!owned && !isWater && !isRail && !isHighway && getHash(x,y) > 0.7 && (
             <mesh position={[0, 0, 0]} scale={0.3} castShadow>
                 <coneGeometry args={[1, 2, 4]} />
                 <meshStandardMaterial color="#064e3b" />
@@ -930,9 +1147,83 @@ const GroundTile = React.memo(({ tile, grid, onHover, onLeave, onClick, isLandTo
   );
 });
 
+// Floating "no entry" sign over buildings that can't reach the highway
+const NoRoadIcon = () => (
+  <group position={[0, 1.4, 0]} raycast={() => null}>
+    <Float speed={4} rotationIntensity={0} floatIntensity={0.3} floatingRange={[0, 0.15]}>
+      <Billboard>
+        <mesh>
+          <circleGeometry args={[0.22, 20]} />
+          <meshBasicMaterial color="#dc2626" depthTest={false} transparent />
+        </mesh>
+        <mesh position={[0, 0, 0.01]}>
+          <planeGeometry args={[0.28, 0.08]} />
+          <meshBasicMaterial color="white" depthTest={false} transparent />
+        </mesh>
+      </Billboard>
+    </Float>
+  </group>
+);
+
+const UTILITY_ICON_COLORS: Record<Utility, string> = { power: '#f59e0b', water: '#0ea5e9' };
+
+// Floating warning over buildings that are short of power or water, one badge per missing utility
+const NoUtilityIcon = ({ missing }: { missing: Utility[] }) => (
+  <group position={[0, 1.4, 0]} raycast={() => null}>
+    <Float speed={4} rotationIntensity={0} floatIntensity={0.3} floatingRange={[0, 0.15]}>
+      <Billboard>
+        {missing.map((utility, i) => (
+          <group key={utility} position={[(i - (missing.length - 1) / 2) * 0.5, 0, 0]}>
+            <mesh>
+              <circleGeometry args={[0.22, 20]} />
+              <meshBasicMaterial color={UTILITY_ICON_COLORS[utility]} depthTest={false} transparent />
+            </mesh>
+            <mesh position={[0, 0.04, 0.01]}>
+              <planeGeometry args={[0.06, 0.2]} />
+              <meshBasicMaterial color="white" depthTest={false} transparent />
+            </mesh>
+            <mesh position={[0, -0.12, 0.01]}>
+              <circleGeometry args={[0.035, 12]} />
+              <meshBasicMaterial color="white" depthTest={false} transparent />
+            </mesh>
+          </group>
+        ))}
+      </Billboard>
+    </Float>
+  </group>
+);
+
+// Diamond outline of the tiles a service building would cover (coverage uses Manhattan distance)
+const CoverageRing = ({ x, y, mapSize, radius, color }: { x: number, y: number, mapSize: number, radius: number, color: string }) => {
+  const [wx, _, wz] = gridToWorld(x, y, mapSize);
+  return (
+    <group position={[wx, -0.23, wz]} rotation={[-Math.PI / 2, 0, 0]} raycast={() => null}>
+      <mesh>
+        <ringGeometry args={[radius + 0.35, radius + 0.5, 4]} />
+        <meshBasicMaterial color={color} transparent opacity={0.8} side={THREE.DoubleSide} depthTest={false} />
+      </mesh>
+      <mesh>
+        <circleGeometry args={[radius + 0.35, 4]} />
+        <meshBasicMaterial color={color} transparent opacity={0.12} side={THREE.DoubleSide} depthTest={false} />
+      </mesh>
+    </group>
+  );
+};
+
+// One tile of a drag preview: tinted where it will be built, red where it will be skipped
+const GhostTile = ({ x, y, mapSize, color }: { x: number, y: number, mapSize: number, color: string }) => {
+  const [wx, _, wz] = gridToWorld(x, y, mapSize);
+  return (
+    <mesh position={[wx, -0.24, wz]} rotation={[-Math.PI / 2, 0, 0]} raycast={() => null}>
+      <planeGeometry args={[0.92, 0.92]} />
+      <meshBasicMaterial color={color} transparent opacity={0.5} side={THREE.DoubleSide} depthTest={false} />
+    </mesh>
+  );
+};
+
 // Selection/Hover Cursor
-const Cursor = ({ x, y, color, label }: { x: number, y: number, color: string, label?: string }) => {
-  const [wx, _, wz] = gridToWorld(x, y);
+const Cursor = ({ x, y, mapSize, color, label }: { x: number, y: number, mapSize: number, color: string, label?: string }) => {
+  const [wx, _, wz] = gridToWorld(x, y, mapSize);
   return (
     <group position={[wx, 0, wz]}>
       <mesh position={[0, -0.25, 0]} rotation={[-Math.PI / 2, 0, 0]} raycast={() => null}>
@@ -963,44 +1254,106 @@ const Cursor = ({ x, y, color, label }: { x: number, y: number, color: string, l
 
 interface IsoMapProps {
   grid: Grid;
+  money: number;
   onTileClick: (x: number, y: number) => void;
+  onTileDrag: (from: GridPoint, to: GridPoint) => void;
+  planDrag: (from: GridPoint, to: GridPoint) => DragPlan;
   hoveredTool: BuildingType;
+  inspected: GridPoint | null; // Tile shown in the inspector panel
   population: number;
+  trains: Train[];
+  traffic: number[];
+  landValue: number[];
+  pollution: SimState['pollution'];
+  happiness: number[];
+  events: CityEvent[];
+  overlay: MapOverlay;
   timeOfDay: number;
+  speed: GameSpeed;
 }
 
-const IsoMap: React.FC<IsoMapProps> = ({ grid, onTileClick, hoveredTool, population, timeOfDay }) => {
+const IsoMap: React.FC<IsoMapProps> = ({ grid, money, onTileClick, onTileDrag, planDrag, hoveredTool, inspected, population, trains, traffic, landValue, pollution, happiness, events, overlay, timeOfDay, speed }) => {
   const [hoveredTile, setHoveredTile] = useState<{x: number, y: number} | null>(null);
+  const [drag, setDrag] = useState<{ start: GridPoint; end: GridPoint } | null>(null);
+  const isInspectTool = hoveredTool === BuildingType.Inspect;
+  const roadNetwork = useMemo(() => buildRoadNetwork(grid), [grid]);
+  const utilities = useMemo(() => getUtilities(grid), [grid]);
+  const overlayTints = useMemo(() => {
+    if (overlay === 'none') return null;
+    const data: OverlayData = { grid, traffic, landValue, pollution, happiness, coverage: getServiceCoverage(grid) };
+    return grid.flat().map(tile => {
+      const value = overlayValue(overlay, data, tile);
+      return value === null ? undefined : heatColor(MAP_OVERLAYS[overlay].hues, value);
+    });
+  }, [overlay, grid, traffic, landValue, pollution, happiness]);
 
   const handleHover = useCallback((x: number, y: number) => {
     setHoveredTile({ x, y });
+    setDrag(d => d && { ...d, end: { x, y } });
+  }, []);
+
+  const handlePress = useCallback((x: number, y: number) => {
+    setDrag({ start: { x, y }, end: { x, y } });
   }, []);
 
+  // The button may be released anywhere, even off the map
+  useEffect(() => {
+    if (!drag) return;
+    const handleRelease = () => {
+      setDrag(null);
+      const { start, end } = drag;
+      // The inspector has nothing to drag; it looks at the tile under the release
+      if (isInspectTool) onTileClick(end.x, end.y);
+      else if (start.x === end.x && start.y === end.y) onTileClick(start.x, start.y);
+      else onTileDrag(start, end);
+    };
+    window.addEventListener('pointerup', handleRelease);
+    return () => window.removeEventListener('pointerup', handleRelease);
+  }, [drag, isInspectTool, onTileClick, onTileDrag]);
+
+  const isDragging = !isInspectTool && !!drag && (drag.start.x !== drag.end.x || drag.start.y !== drag.end.y);
+  const dragPlan = useMemo(() => (isDragging && drag ? planDrag(drag.start, drag.end) : null), [isDragging, drag, planDrag, grid]);
+
   const handleLeave = useCallback(() => {
     setHoveredTile(null);
   }, []);
 
   // Preview Logic
   const isLandTool = hoveredTool === BuildingType.Land;
+  const isUpgradeTool = hoveredTool === BuildingType.Upgrade;
+  const hoveredService = BUILDINGS[hoveredTool].service;
   let showPreview = false;
   let previewColor = 'white';
   let cursorLabel = undefined;
   
-  if (hoveredTile) {
-      const tile = grid[hoveredTile.y][hoveredTile.x];
+  // The grid can shrink under the cursor when a smaller map is generated
+  const hoveredTileData = hoveredTile ? grid[hoveredTile.y]?.[hoveredTile.x] : undefined;
+
+  if (hoveredTile && hoveredTileData) {
+      const tile = hoveredTileData;
       
       if (isLandTool) {
           // Logic handled in GroundTile color mostly, but cursor changes here
           if (tile.owned && tile.buildingType === BuildingType.None) {
               previewColor = '#ef4444'; // Sell
-              cursorLabel = `Sell $${Math.floor((tile.landPrice || LAND_COST)/2)}`;
+              cursorLabel = `Sell $${getSellPrice({ grid, landValue }, tile)}`;
           }
-          else if (!tile.owned && !tile.isWater && !tile.isRail) {
+          else if (!tile.owned && !tile.isWater && !tile.isRail && !tile.isHighway) {
               previewColor = '#10b981'; // Buy
-              cursorLabel = `$${tile.landPrice || LAND_COST}`;
+              cursorLabel = `$${getBuyPrice({ grid, landValue }, tile)}`;
           }
           else previewColor = '#000000'; // Invalid
           showPreview = true; // Use cursor to show valid/invalid
+      } else if (isUpgradeTool) {
+          if (canDensify(tile) && levelOf(tile) < MAX_LEVEL) {
+              previewColor = BUILDINGS[BuildingType.Upgrade].color;
+              cursorLabel = `Level ${levelOf(tile) + 1} $${upgradeCost(tile)}`;
+          }
+          else previewColor = '#000000'; // Invalid
+          showPreview = true;
+      } else if (isInspectTool) {
+          previewColor = BUILDINGS[BuildingType.Inspect].color;
+          showPreview = true;
       } else {
           // Building Tools
           if (tile.owned && (tile.buildingType === BuildingType.None || (hoveredTool === BuildingType.Rail && tile.isWater) || (hoveredTool === BuildingType.Bridge && tile.isWater)) && !tile.isRail) {
@@ -1011,7 +1364,8 @@ const IsoMap: React.FC<IsoMapProps> = ({ grid, onTileClick, hoveredTool, populat
   }
 
   const isBulldoze = hoveredTool === BuildingType.None;
-  const previewPos = hoveredTile ? gridToWorld(hoveredTile.x, hoveredTile.y) : [0,0,0];
+  const mapSize = grid.length;
+  const previewPos = hoveredTile ? gridToWorld(hoveredTile.x, hoveredTile.y, mapSize) : [0,0,0];
 
   return (
     <div className="absolute inset-0 touch-none">
@@ -1019,6 +1373,8 @@ const IsoMap: React.FC<IsoMapProps> = ({ grid, onTileClick, hoveredTool, populat
         <OrthographicCamera makeDefault zoom={30} position={[20, 20, 20]} near={-100} far={200} />
         
         <MapControls 
+          enabled={!drag}
+          mouseButtons={{ LEFT: THREE.MOUSE.PAN, MIDDLE: THREE.MOUSE.ROTATE, RIGHT: THREE.MOUSE.PAN }}
           enableRotate={true}
           enableZoom={true}
           minZoom={15}
@@ -1028,13 +1384,14 @@ const IsoMap: React.FC<IsoMapProps> = ({ grid, onTileClick, hoveredTool, populat
           target={[0,-0.5,0]}
         />
 
-        <EnvironmentEffects timeOfDay={timeOfDay} />
+        <EnvironmentEffects timeOfDay={timeOfDay} mapSize={mapSize} />
 
         <group>
           {grid.map((row, y) =>
             row.map((tile, x) => {
               // Calculate world position once per tile
-              const [wx, _, wz] = gridToWorld(x, y);
+              const [wx, _, wz] = gridToWorld(x, y, mapSize);
+              const missing = missingUtilities(utilities, grid, tile);
               
               return (
               <React.Fragment key={`${x}-${y}`}>
@@ -1043,8 +1400,9 @@ const IsoMap: React.FC<IsoMapProps> = ({ grid, onTileClick, hoveredTool, populat
                     grid={grid}
                     onHover={handleHover}
                     onLeave={handleLeave}
-                    onClick={onTileClick}
+                    onPress={handlePress}
                     isLandTool={isLandTool}
+                    tint={overlayTints?.[tileIndex(x, y, mapSize)]}
                 />
                 
                 {/* Building visual - apply world position to group to align with ground tile */}
@@ -1054,8 +1412,12 @@ const IsoMap: React.FC<IsoMapProps> = ({ grid, onTileClick, hoveredTool, populat
                         type={tile.buildingType} 
                         baseColor={BUILDINGS[tile.buildingType].color} 
                         x={x} y={y} 
+                        level={tile.level}
                       />
                     )}
+                    {tile.owned && BUILDINGS[tile.buildingType].needsRoad && !hasRoadAccess(roadNetwork, grid, x, y)
+                      ? <NoRoadIcon />
+                      : missing.length > 0 && <NoUtilityIcon missing={missing} />}
                 </group>
               </React.Fragment>
             )})
@@ -1063,12 +1425,13 @@ const IsoMap: React.FC<IsoMapProps> = ({ grid, onTileClick, hoveredTool, populat
 
           {/* Visual Elements - disable pointer events */}
           <group raycast={() => null}>
-            <TrafficSystem grid={grid} />
-            <TrainSystem grid={grid} />
-            <PopulationSystem population={population} grid={grid} />
+            <TrafficSystem grid={grid} traffic={traffic} speed={speed} />
+            <TrainSystem grid={grid} trains={trains} speed={speed} />
+            <EventSystem events={events} mapSize={mapSize} />
+            <PopulationSystem population={population} grid={grid} timeOfDay={timeOfDay} />
 
             {/* Placement Preview */}
-            {showPreview && hoveredTile && !isLandTool && !isBulldoze && (
+            {showPreview && hoveredTile && !isLandTool && !isUpgradeTool && !isInspectTool && !isBulldoze && !isDragging && (
               <group position={[previewPos[0], 0, previewPos[2]]}>
                 <Float speed={3} rotationIntensity={0} floatIntensity={0.1} floatingRange={[0, 0.1]}>
                   <ProceduralBuilding 
@@ -1082,13 +1445,44 @@ const IsoMap: React.FC<IsoMapProps> = ({ grid, onTileClick, hoveredTool, populat
                 </Float>
               </group>
             )}
+            {hoveredTile && hoveredService && !isDragging && (
+              <CoverageRing x={hoveredTile.x} y={hoveredTile.y} mapSize={mapSize} radius={hoveredService.radius} color={BUILDINGS[hoveredTool].color} />
+            )}
+
+            {/* Drag Preview */}
+            {dragPlan && drag && (
+              <>
+                {dragPlan.tiles.map(t => (
+                  <GhostTile
+                    key={`${t.x}-${t.y}`}
+                    x={t.x}
+                    y={t.y}
+                    mapSize={mapSize}
+                    color={!t.valid ? '#ef4444' : isBulldoze ? '#f97316' : isLandTool ? '#10b981' : BUILDINGS[hoveredTool].color}
+                  />
+                ))}
+                <Cursor
+                  x={drag.end.x}
+                  y={drag.end.y}
+                  mapSize={mapSize}
+                  color={dragPlan.cost > money ? '#ef4444' : '#ffffff'}
+                  label={dragPlan.cost > money ? `Need $${dragPlan.cost}` : dragPlan.cost < 0 ? `+$${-dragPlan.cost}` : `$${dragPlan.cost}`}
+                />
+              </>
+            )}
+
+            {/* Inspected tile */}
+            {inspected && grid[inspected.y]?.[inspected.x] && (
+              <Cursor x={inspected.x} y={inspected.y} mapSize={mapSize} color="#38bdf8" />
+            )}
 
             {/* Highlight */}
-            {hoveredTile && (
+            {hoveredTile && hoveredTileData && !isDragging && (
               <Cursor 
                 x={hoveredTile.x} 
                 y={hoveredTile.y} 
-                color={isBulldoze ? '#ef4444' : (isLandTool ? previewColor : (showPreview ? '#ffffff' : '#000000'))} 
+                mapSize={mapSize}
+                color={isBulldoze ? '#ef4444' : (isLandTool || isUpgradeTool || isInspectTool ? previewColor : (showPreview ? '#ffffff' : '#000000'))} 
                 label={cursorLabel}
               />
             )}
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { MAX_SAVE_SLOTS, listSaves } from '../services/saveService';
+
+interface SaveMenuProps {
+  cityName: string;
+  onSave: (slot: number, name: string) => boolean;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const SaveMenu: React.FC<SaveMenuProps> = ({ cityName, onSave, onExport, onClose }) => {
+  const [name, setName] = useState(cityName);
+  const [saves, setSaves] = useState(listSaves);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const handleSave = (slot: number) => {
+    const ok = onSave(slot, name.trim() || cityName);
+    setStatus(ok ? `Saved to slot ${slot}.` : 'Save failed. Storage may be full.');
+    setSaves(listSaves());
+  };
+
+  return (
+    <div className="bg-gray-900/95 text-white p-3 rounded-xl border border-gray-700 shadow-2xl backdrop-blur-md w-full md:w-72">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-[10px] text-gray-400 uppercase font-bold tracking-widest">Save City</span>
+        <button onClick={onClose} className="text-gray-500 hover:text-white text-xs font-bold">✕</button>
+      </div>
+
+      <input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        maxLength={40}
+        className="w-full mb-2 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm focus:outline-none focus:border-cyan-500"
+        placeholder="City name"
+      />
+
+      <div className="flex flex-col gap-1">
+        {Array.from({ length: MAX_SAVE_SLOTS }, (_, i) => {
+          const summary = saves[i];
+          return (
+            <button
+              key={i}
+              onClick={() => handleSave(i + 1)}
+              className="flex justify-between items-center text-left bg-gray-800/80 hover:bg-gray-700 border border-gray-700 rounded px-2 py-1"
+            >
+              <span className="text-xs font-bold truncate">{i + 1}. {summary ? summary.name : <span className="text-gray-500 italic font-normal">Empty slot</span>}</span>
+              {summary && <span className="text-[10px] font-mono text-gray-400 ml-2 flex-shrink-0">Day {summary.day}</span>}
+            </button>
+          );
+        })}
+      </div>
+
+      <button onClick={onExport} className="w-full mt-2 py-1.5 bg-cyan-700 hover:bg-cyan-600 rounded text-xs font-bold uppercase tracking-wider">
+        Export JSON
+      </button>
+      {status && <div className="mt-2 text-[10px] text-center text-gray-300">{status}</div>}
+    </div>
+  );
+};
+
+export default SaveMenu;
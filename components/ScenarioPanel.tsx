@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { ScenarioState } from '../types';
+import { failureText, goalText } from '../simulation/scenarios';
+
+interface ScenarioPanelProps {
+  scenario: ScenarioState;
+  progress: number[]; // Current value of each goal's metric, by goal index
+  day: number;
+}
+
+// Scenario goals with progress and deadlines, shown beside the advisor
+const ScenarioPanel: React.FC<ScenarioPanelProps> = ({ scenario: { scenario, goalsMet }, progress, day }) => (
+  <div className="bg-gray-900/90 text-white p-3 rounded-xl border border-amber-700/60 shadow-2xl backdrop-blur-md w-full md:w-72">
+    <span className="text-[10px] text-amber-400 uppercase font-bold tracking-widest">Scenario · {scenario.name}</span>
+    <div className="space-y-2 mt-1">
+      {scenario.goals.map((goal, i) => {
+        const met = goalsMet[i];
+        const percent = Math.min(100, Math.max(0, (progress[i] / Math.max(goal.targetValue, 1)) * 100));
+        const daysLeft = goal.deadline !== undefined ? goal.deadline - day : null;
+        return (
+          <div key={i}>
+            <div className="flex justify-between gap-2 text-xs">
+              <span className={met !== null ? 'text-green-300' : 'text-gray-200'}>{met !== null ? '✓ ' : ''}{goalText(goal)}</span>
+              {met !== null ? (
+                <span className="font-mono text-[10px] text-gray-500 flex-shrink-0">Day {met}</span>
+              ) : daysLeft !== null && (
+                <span className={`font-mono text-[10px] flex-shrink-0 ${daysLeft <= 5 ? 'text-red-400' : 'text-gray-400'}`}>{daysLeft}d left</span>
+              )}
+            </div>
+            {met === null && (
+              <div className="h-1.5 mt-1 bg-gray-800 rounded-full overflow-hidden">
+                <div className="h-full bg-amber-500 transition-all duration-500" style={{ width: `${percent}%` }} />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+    {scenario.failures.length > 0 && (
+      <div className="mt-2 pt-2 border-t border-gray-700 space-y-0.5">
+        {scenario.failures.map((failure, i) => (
+          <div key={i} className="text-[10px] text-red-300">✕ Lose if {failureText(failure)}</div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export default ScenarioPanel;
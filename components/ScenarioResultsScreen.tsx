@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { CityStats, ScenarioState } from '../types';
+import { goalText } from '../simulation/scenarios';
+
+interface ScenarioResultsScreenProps {
+  scenario: ScenarioState;
+  stats: CityStats;
+  onRetry: () => void;
+  onExit: () => void;
+}
+
+const Stat: React.FC<{ label: string; value: string; className?: string }> = ({ label, value, className = 'text-white' }) => (
+  <div className="flex flex-col items-center">
+    <span className="text-[10px] text-gray-400 uppercase font-bold tracking-widest">{label}</span>
+    <span className={`text-xl font-black font-mono ${className}`}>{value}</span>
+  </div>
+);
+
+// Shown once a scenario is won or lost
+const ScenarioResultsScreen: React.FC<ScenarioResultsScreenProps> = ({ scenario: { scenario, goalsMet, outcome, reason }, stats, onRetry, onExit }) => {
+  const won = outcome === 'won';
+  return (
+    <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div className={`bg-gray-900/95 text-white p-6 rounded-2xl border shadow-2xl w-full max-w-sm text-center ${won ? 'border-amber-500' : 'border-red-700'}`}>
+        <div className="text-[10px] text-gray-400 uppercase font-bold tracking-widest">{scenario.name}</div>
+        <div className={`text-3xl font-black tracking-tight ${won ? 'text-amber-300' : 'text-red-400'}`}>{won ? 'SCENARIO WON' : 'SCENARIO FAILED'}</div>
+        {reason && <p className="text-sm text-gray-300 mt-2">{reason}</p>}
+        <div className="grid grid-cols-3 gap-2 my-5">
+          <Stat label="Day" value={stats.day.toLocaleString()} />
+          <Stat label="Citizens" value={stats.population.toLocaleString()} className="text-blue-300" />
+          <Stat label="Treasury" value={`${stats.money < 0 ? '-' : ''}$${Math.abs(stats.money).toLocaleString()}`} className={stats.money < 0 ? 'text-red-300' : 'text-green-300'} />
+        </div>
+        <div className="space-y-1 mb-5 text-left">
+          {scenario.goals.map((goal, i) => (
+            <div key={i} className="flex justify-between gap-2 text-xs">
+              <span className={goalsMet[i] !== null ? 'text-green-300' : 'text-gray-400'}>{goalsMet[i] !== null ? '✓' : '✕'} {goalText(goal)}</span>
+              {goalsMet[i] !== null && <span className="font-mono text-[10px] text-gray-500 flex-shrink-0">Day {goalsMet[i]}</span>}
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <button onClick={onRetry} className="flex-1 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm font-bold uppercase tracking-wider">
+            Retry
+          </button>
+          <button onClick={onExit} className="flex-1 py-2 bg-cyan-700 hover:bg-cyan-600 rounded-lg text-sm font-bold uppercase tracking-wider">
+            Main Menu
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioResultsScreen;
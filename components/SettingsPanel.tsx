@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { AISettings, DisasterFrequency } from '../types';
+import { DISASTER_FREQUENCIES, UNDO_DEPTH_OPTIONS } from '../constants';
+import { AI_PROVIDERS, getAIProvider } from '../services/aiService';
+
+interface SettingsPanelProps {
+  settings: AISettings;
+  onChange: (settings: AISettings) => void;
+  onClose: () => void;
+  // City settings, only shown once a city is running
+  disasters?: DisasterFrequency;
+  onSetDisasters?: (frequency: DisasterFrequency) => void;
+  undoDepth?: number;
+  onSetUndoDepth?: (depth: number) => void;
+}
+
+const inputClass = 'w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-xs font-mono focus:outline-none focus:border-cyan-500';
+
+const Field: React.FC<{ label: string; value: string; onChange: (value: string) => void; type?: string; placeholder?: string }> = ({ label, value, onChange, type = 'text', placeholder }) => (
+  <label className="block mb-1.5">
+    <span className="text-[10px] text-gray-400 uppercase font-bold tracking-wider">{label}</span>
+    <input type={type} value={value} placeholder={placeholder} onChange={(e) => onChange(e.target.value)} className={inputClass} />
+  </label>
+);
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, onClose, disasters, onSetDisasters, undoDepth, onSetUndoDepth }) => {
+  const [testResult, setTestResult] = useState<string | null>(null);
+
+  const setGemini = (patch: Partial<AISettings['gemini']>) => onChange({ ...settings, gemini: { ...settings.gemini, ...patch } });
+  const setOpenAI = (patch: Partial<AISettings['openai']>) => onChange({ ...settings, openai: { ...settings.openai, ...patch } });
+
+  // Asks the selected backend for one headline about a sample city
+  const handleTest = async () => {
+    setTestResult('Waiting for a reply...');
+    const news = await getAIProvider(settings).generateNewsEvent({ money: 12000, population: 340, day: 12 }, null);
+    setTestResult(news ? `"${news.text}"` : 'No reply. Check the browser console for details.');
+  };
+
+  return (
+    <div className="bg-gray-900/95 text-white p-3 rounded-xl border border-gray-700 shadow-2xl backdrop-blur-md w-full md:w-72 text-left">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-[10px] text-gray-400 uppercase font-bold tracking-widest">AI Settings</span>
+        <button onClick={onClose} className="text-gray-500 hover:text-white text-xs font-bold">✕</button>
+      </div>
+
+      <div className="flex flex-col gap-1 mb-2">
+        {AI_PROVIDERS.map(provider => (
+          <button
+            key={provider.id}
+            onClick={() => { onChange({ ...settings, provider: provider.id }); setTestResult(null); }}
+            className={`text-left rounded px-2 py-1 border transition-colors ${settings.provider === provider.id ? 'border-cyan-400 bg-cyan-900/40' : 'border-gray-700 bg-gray-800/80 hover:bg-gray-700'}`}
+          >
+            <div className="text-xs font-bold">{provider.name}</div>
+            <div className="text-[10px] text-gray-400 leading-snug">{provider.description}</div>
+          </button>
+        ))}
+      </div>
+
+      {settings.provider === 'gemini' && (
+        <Field label="Model" value={settings.gemini.model} onChange={(model) => setGemini({ model })} />
+      )}
+      {settings.provider === 'openai' && (
+        <>
+          <Field label="Base URL" value={settings.openai.baseUrl} onChange={(baseUrl) => setOpenAI({ baseUrl })} placeholder="http://localhost:11434/v1" />
+          <Field label="Model" value={settings.openai.model} onChange={(model) => setOpenAI({ model })} />
+          <Field label="API key (optional)" type="password" value={settings.openai.apiKey} onChange={(apiKey) => setOpenAI({ apiKey })} />
+        </>
+      )}
+
+      <button onClick={handleTest} className="w-full mt-1 py-1.5 bg-cyan-700 hover:bg-cyan-600 rounded text-xs font-bold uppercase tracking-wider">
+        Test Headline
+      </button>
+      {testResult && <div className="mt-2 text-[10px] text-center text-gray-300">{testResult}</div>}
+
+      {disasters && onSetDisasters && (
+        <div className="mt-3 pt-2 border-t border-gray-700">
+          <span className="text-[10px] text-gray-400 uppercase font-bold tracking-widest">Disasters</span>
+          <div className="grid grid-cols-4 gap-1 mt-1">
+            {(Object.keys(DISASTER_FREQUENCIES) as DisasterFrequency[]).map(frequency => (
+              <button
+                key={frequency}
+                onClick={() => onSetDisasters(frequency)}
+                className={`rounded py-1 text-[10px] font-bold border transition-colors ${disasters === frequency ? 'border-cyan-400 bg-cyan-900/40' : 'border-gray-700 bg-gray-800/80 hover:bg-gray-700'}`}
+              >
+                {DISASTER_FREQUENCIES[frequency].label}
+              </button>
+            ))}
+          </div>
+          <div className="text-[10px] text-gray-500 mt-1 leading-snug">Floods, fires and factory accidents. Saved with the city.</div>
+        </div>
+      )}
+
+      {undoDepth !== undefined && onSetUndoDepth && (
+        <div className="mt-3 pt-2 border-t border-gray-700">
+          <span className="text-[10px] text-gray-400 uppercase font-bold tracking-widest">Undo Steps</span>
+          <div className="grid grid-cols-4 gap-1 mt-1">
+            {UNDO_DEPTH_OPTIONS.map(depth => (
+              <button
+                key={depth}
+                onClick={() => onSetUndoDepth(depth)}
+                className={`rounded py-1 text-[10px] font-bold border transition-colors ${undoDepth === depth ? 'border-cyan-400 bg-cyan-900/40' : 'border-gray-700 bg-gray-800/80 hover:bg-gray-700'}`}
+              >
+                {depth}
+              </button>
+            ))}
+          </div>
+          <div className="text-[10px] text-gray-500 mt-1 leading-snug">Commands kept for Ctrl+Z. Fewer steps use less memory.</div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -1,23 +1,129 @@
-
-
 /**
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
+import React, { useRef, useState } from 'react';
+import { SaveData, SaveSummary, deleteSlot, getAutosaveSummary, importScenario, importSave, listSaves, loadAutosave, loadSlot } from '../services/saveService';
+import { COASTLINE_LABELS, MAP_PRESETS, MAP_SIZE_OPTIONS, MAX_MAP_LAKES, MAX_MAP_RIVERS, SCENARIOS } from '../constants';
+import { randomSeed } from '../simulation/rng';
+import { AISettings, Coastline, MapOptions, Scenario } from '../types';
+import { AI_PROVIDERS } from '../services/aiService';
+import SettingsPanel from './SettingsPanel';
+import { goalText } from '../simulation/scenarios';
 
 interface StartScreenProps {
   onStart: () => void;
+  onLoad: (save: SaveData) => void;
+  onStartScenario: (scenario: Scenario) => void;
+  mapPresetId: string;
+  mapSeed: number;
+  mapOptions: MapOptions;
+  onConfigureMap: (presetId: string, seed: number, options?: MapOptions) => void;
+  aiSettings: AISettings;
+  onAISettingsChange: (settings: AISettings) => void;
 }
 
-const StartScreen: React.FC<StartScreenProps> = ({ onStart }) => {
+const SaveRow: React.FC<{ summary: SaveSummary; onLoad: () => void; onDelete?: () => void }> = ({ summary, onLoad, onDelete }) => (
+  <div className="flex items-center gap-2 bg-slate-800/70 border border-slate-700 rounded-lg px-3 py-2">
+    <button onClick={onLoad} className="flex-1 text-left group">
+      <div className="text-sm font-bold text-white group-hover:text-cyan-300 transition-colors truncate">{summary.name}</div>
+      <div className="text-[10px] font-mono text-slate-400">
+        Day {summary.day} · {summary.population.toLocaleString()} pop · ${summary.money.toLocaleString()} · {new Date(summary.savedAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+      </div>
+    </button>
+    {onDelete && (
+      <button onClick={onDelete} className="text-slate-500 hover:text-red-400 text-xs font-bold px-1" title="Delete save">✕</button>
+    )}
+  </div>
+);
+
+const optionClass = (active: boolean) =>
+  `flex-1 py-1 rounded border text-[10px] font-bold transition-colors ${active ? 'border-cyan-400 bg-cyan-900/40 text-white' : 'border-slate-700 bg-slate-800/70 text-slate-300 hover:bg-slate-700'}`;
+
+// One row of choices for a custom map setting
+const OptionRow = <T extends string | number>({ label, options, value, onChange, format = String }: {
+  label: string;
+  options: T[];
+  value: T;
+  onChange: (value: T) => void;
+  format?: (value: T) => string;
+}) => (
+  <div className="flex items-center gap-2 mt-1.5">
+    <span className="w-14 text-[10px] text-slate-400 uppercase font-bold tracking-widest">{label}</span>
+    <div className="flex flex-1 gap-1">
+      {options.map(option => (
+        <button key={option} onClick={() => onChange(option)} className={optionClass(option === value)}>{format(option)}</button>
+      ))}
+    </div>
+  </div>
+);
+
+const counts = (max: number) => Array.from({ length: max + 1 }, (_, i) => i);
+
+const StartScreen: React.FC<StartScreenProps> = ({ onStart, onLoad, onStartScenario, mapPresetId, mapSeed, mapOptions, onConfigureMap, aiSettings, onAISettingsChange }) => {
+  const [showCustom, setShowCustom] = useState(false);
+  const [saves, setSaves] = useState(listSaves);
+  const [showSettings, setShowSettings] = useState(false);
+  const [autosave] = useState(getAutosaveSummary);
+  const [error, setError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const scenarioFileRef = useRef<HTMLInputElement>(null);
+
+  const loadFromSlot = (slot: number) => {
+    const save = loadSlot(slot);
+    if (save) onLoad(save);
+    else setError(`Slot ${slot} could not be loaded.`);
+  };
+
+  const loadFromAutosave = () => {
+    const save = loadAutosave();
+    if (save) onLoad(save);
+    else setError('Autosave could not be loaded.');
+  };
+
+  const handleDelete = (slot: number) => {
+    deleteSlot(slot);
+    setSaves(listSaves());
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onLoad(await importSave(file));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not import save file.');
+    }
+  };
+
+  const handleImportScenario = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onStartScenario(await importScenario(file));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load scenario file.');
+    }
+  };
+
+  const handleSeedChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const seed = parseInt(e.target.value.replace(/\D/g, ''), 10);
+    onConfigureMap(mapPresetId, Number.isFinite(seed) ? seed : 0, mapOptions);
+  };
+
+  const customizeMap = (patch: Partial<MapOptions>) => onConfigureMap(mapPresetId, mapSeed, { ...mapOptions, ...patch });
+
+  const savedSlots = saves.filter((s): s is SaveSummary => s !== null);
+
   return (
     <div className="absolute inset-0 flex flex-col items-center justify-center z-50 text-white font-sans p-6 bg-black/30 backdrop-blur-sm transition-all duration-1000">
-      <div className="max-w-md w-full bg-slate-900/90 p-8 rounded-2xl border border-slate-700 shadow-2xl backdrop-blur-xl relative overflow-hidden animate-fade-in">
+      <div className="max-w-md w-full max-h-full overflow-y-auto bg-slate-900/90 p-8 rounded-2xl border border-slate-700 shadow-2xl backdrop-blur-xl relative overflow-hidden animate-fade-in">
         {/* Decorative background glow */}
         <div className="absolute -top-24 -right-24 w-48 h-48 bg-cyan-500/20 rounded-full blur-3xl pointer-events-none"></div>
         <div className="absolute -bottom-24 -left-24 w-48 h-48 bg-indigo-500/20 rounded-full blur-3xl pointer-events-none"></div>
-        
+
         <div className="relative z-10">
             <h1 className="text-5xl font-black mb-2 bg-gradient-to-br from-white via-cyan-200 to-blue-400 bg-clip-text text-transparent tracking-tight text-center">
             POPLU CITY
@@ -26,17 +132,137 @@ const StartScreen: React.FC<StartScreenProps> = ({ onStart }) => {
             Isometric City Builder
             </p>
 
-            <button 
+            {autosave && (
+              <button
+              onClick={loadFromAutosave}
+              className="w-full py-3 mb-3 bg-slate-800 hover:bg-slate-700 border border-cyan-700/60 text-cyan-200 font-bold rounded-xl transition-all text-sm tracking-wide"
+              >
+              Continue · Day {autosave.day}
+              </button>
+            )}
+
+            {/* Map Setup */}
+            <div className="mb-4">
+              <span className="text-[10px] text-slate-400 uppercase font-bold tracking-widest">Terrain</span>
+              <div className="grid grid-cols-2 gap-2 mt-2">
+                {MAP_PRESETS.map(preset => (
+                  <button
+                    key={preset.id}
+                    onClick={() => onConfigureMap(preset.id, mapSeed)}
+                    title={preset.description}
+                    className={`py-2 px-2 rounded-lg border text-xs font-bold transition-colors ${preset.id === mapPresetId ? 'border-cyan-400 bg-cyan-900/40 text-white' : 'border-slate-700 bg-slate-800/70 text-slate-300 hover:bg-slate-700'}`}
+                  >
+                    {preset.name}
+                  </button>
+                ))}
+              </div>
+              <div className="flex items-center gap-2 mt-2">
+                <span className="text-[10px] text-slate-400 uppercase font-bold tracking-widest">Seed</span>
+                <input
+                  value={mapSeed}
+                  onChange={handleSeedChange}
+                  inputMode="numeric"
+                  className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs font-mono focus:outline-none focus:border-cyan-500"
+                />
+                <button
+                  onClick={() => onConfigureMap(mapPresetId, randomSeed(), mapOptions)}
+                  className="px-2 py-1 rounded bg-slate-800 border border-slate-700 hover:bg-slate-700 text-xs font-bold"
+                  title="Random seed"
+                >
+                  Reroll
+                </button>
+                <button
+                  onClick={() => setShowCustom(show => !show)}
+                  className={`px-2 py-1 rounded border text-xs font-bold ${showCustom ? 'border-cyan-400 bg-cyan-900/40' : 'bg-slate-800 border-slate-700 hover:bg-slate-700'}`}
+                  title="Adjust the selected terrain"
+                >
+                  Custom
+                </button>
+              </div>
+              {showCustom && (
+                <div className="mt-1">
+                  <OptionRow label="Size" options={MAP_SIZE_OPTIONS} value={mapOptions.size} onChange={(size) => customizeMap({ size })} />
+                  <OptionRow label="Rivers" options={counts(MAX_MAP_RIVERS)} value={mapOptions.rivers} onChange={(rivers) => customizeMap({ rivers })} />
+                  <OptionRow label="Lakes" options={counts(MAX_MAP_LAKES)} value={mapOptions.lakes} onChange={(lakes) => customizeMap({ lakes })} />
+                  <OptionRow
+                    label="Coast"
+                    options={Object.keys(COASTLINE_LABELS) as Coastline[]}
+                    value={mapOptions.coastline}
+                    onChange={(coastline) => customizeMap({ coastline })}
+                    format={(coastline) => COASTLINE_LABELS[coastline]}
+                  />
+                </div>
+              )}
+            </div>
+
+            <button
             onClick={onStart}
             className="w-full py-4 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white font-bold rounded-xl shadow-lg shadow-cyan-900/20 transform transition-all hover:scale-[1.02] active:scale-[0.98] text-lg tracking-wide"
             >
             Enter City
             </button>
 
+            {/* Scenarios */}
+            <div className="mt-6">
+              <div className="flex justify-between items-center mb-2">
+                <span className="text-[10px] text-slate-400 uppercase font-bold tracking-widest">Scenarios</span>
+                <button onClick={() => scenarioFileRef.current?.click()} className="text-[10px] text-cyan-400 hover:text-cyan-300 uppercase font-bold tracking-widest">Load JSON</button>
+                <input ref={scenarioFileRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImportScenario} />
+              </div>
+              <div className="flex flex-col gap-2">
+                {SCENARIOS.map(scenario => (
+                  <button
+                    key={scenario.id}
+                    onClick={() => onStartScenario(scenario)}
+                    className="text-left bg-slate-800/70 border border-slate-700 hover:border-amber-500/70 rounded-lg px-3 py-2 group"
+                  >
+                    <div className="flex justify-between items-baseline gap-2">
+                      <span className="text-sm font-bold text-white group-hover:text-amber-300 transition-colors">{scenario.name}</span>
+                      <span className="text-[10px] font-mono text-slate-400">${scenario.startingMoney.toLocaleString()}</span>
+                    </div>
+                    <div className="text-[10px] text-slate-400">{scenario.description}</div>
+                    <div className="text-[10px] text-amber-200/80 mt-0.5">{scenario.goals.map(goalText).join(' · ')}</div>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Saved Cities */}
+            <div className="mt-6">
+              <div className="flex justify-between items-center mb-2">
+                <span className="text-[10px] text-slate-400 uppercase font-bold tracking-widest">Saved Cities</span>
+                <button onClick={() => fileRef.current?.click()} className="text-[10px] text-cyan-400 hover:text-cyan-300 uppercase font-bold tracking-widest">Import JSON</button>
+                <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+              </div>
+              <div className="flex flex-col gap-2 max-h-48 overflow-y-auto">
+                {savedSlots.length === 0 && <div className="text-slate-500 italic text-xs text-center py-2">No saved cities yet.</div>}
+                {savedSlots.map(summary => (
+                  <SaveRow
+                    key={summary.slot}
+                    summary={summary}
+                    onLoad={() => loadFromSlot(summary.slot as number)}
+                    onDelete={() => handleDelete(summary.slot as number)}
+                  />
+                ))}
+              </div>
+              {error && <div className="mt-2 text-xs text-red-400 text-center">{error}</div>}
+            </div>
+
+            {/* AI Settings */}
+            <div className="mt-6">
+              {showSettings ? (
+                <SettingsPanel settings={aiSettings} onChange={onAISettingsChange} onClose={() => setShowSettings(false)} />
+              ) : (
+                <button onClick={() => setShowSettings(true)} className="w-full py-2 rounded-lg border border-slate-700 bg-slate-800/70 hover:bg-slate-700 text-xs font-bold text-slate-300">
+                  AI Settings · {AI_PROVIDERS.find(p => p.id === aiSettings.provider)?.name}
+                </button>
+              )}
+            </div>
+
             <div className="mt-8 text-center">
-                <a 
-                    href="#" 
-                    rel="noreferrer" 
+                <a
+                    href="#"
+                    rel="noreferrer"
                     className="inline-flex items-center gap-2 text-xs text-slate-500 hover:text-cyan-400 transition-colors font-mono group"
                 >
                     <span>Created by</span>
@@ -49,4 +275,4 @@ const StartScreen: React.FC<StartScreenProps> = ({ onStart }) => {
   );
 };
 
-export default StartScreen;
\ No newline at end of file
+export default StartScreen;
@@ -4,20 +4,72 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useEffect, useRef } from 'react';
-import { BuildingType, CityStats, AIGoal, NewsItem } from '../types';
-import { BUILDINGS } from '../constants';
+import React, { useEffect, useRef, useState } from 'react';
+import { AISettings, BuildingType, CityStats, AdvisorState, DisasterFrequency, GameSpeed, Loan, LoanTerm, MapOverlay, MapOverlayConfig, NewsItem, ScenarioState, SimState, Utility, Zone, ZoneDemand } from '../types';
+import { BUILDINGS, GAME_SPEEDS, MAP_OVERLAYS } from '../constants';
+import SaveMenu from './SaveMenu';
+import BudgetPanel from './BudgetPanel';
+import AdvisorPanel from './AdvisorPanel';
+import SettingsPanel from './SettingsPanel';
+import ChartsPanel from './ChartsPanel';
+import InspectorPanel from './InspectorPanel';
+import ScenarioPanel from './ScenarioPanel';
+import { UTILITIES, UtilityReport } from '../simulation/utilities';
+import { totalDebt } from '../simulation/loans';
+import { TileReport } from '../simulation/inspect';
+import { ToolLock } from '../simulation/milestones';
+
+type PanelId = 'save' | 'budget' | 'charts' | 'settings';
 
 interface UIOverlayProps {
   stats: CityStats;
+  demand: ZoneDemand;
+  utilities: UtilityReport;
+  taxRates: SimState['taxRates'];
+  budget: SimState['budget'];
+  statsHistory: SimState['statsHistory'];
+  onExportStats: () => void;
+  onSetTaxRate: (zone: Zone, rate: number) => void;
+  loans: Loan[];
+  onTakeLoan: (term: LoanTerm, amount: number) => void;
+  onRepayLoan: (id: number) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  advisor: AdvisorState;
+  goalProgress: number;
+  goalStatus: 'idle' | 'loading' | 'failed';
+  onRequestGoal: () => void;
+  scenario: ScenarioState | null;
+  scenarioProgress: number[];
+  aiSettings: AISettings;
+  onAISettingsChange: (settings: AISettings) => void;
+  disasters: DisasterFrequency;
+  onSetDisasters: (frequency: DisasterFrequency) => void;
+  undoDepth: number;
+  onSetUndoDepth: (depth: number) => void;
+  overlay: MapOverlay;
+  onSetOverlay: (overlay: MapOverlay) => void;
   selectedTool: BuildingType;
   onSelectTool: (type: BuildingType) => void;
+  toolLocks: Partial<Record<BuildingType, ToolLock>>;
+  inspection: TileReport | null;
+  onInspectorAction: (tool: BuildingType) => void;
+  onCloseInspector: () => void;
   newsFeed: NewsItem[];
+  cityName: string;
+  onSave: (slot: number, name: string) => boolean;
+  onExport: () => void;
+  speed: GameSpeed;
+  onSetSpeed: (speed: GameSpeed) => void;
 }
 
 const tools = [
+  BuildingType.Inspect,
   BuildingType.None, // Bulldoze
   BuildingType.Land, // Real Estate
+  BuildingType.Upgrade,
   BuildingType.Road,
   BuildingType.Bridge, // Added Bridge
   BuildingType.Residential,
@@ -26,6 +78,14 @@ const tools = [
   BuildingType.Park,
   BuildingType.Rail,
   BuildingType.TrainStation,
+  BuildingType.PowerPlant,
+  BuildingType.PowerLine,
+  BuildingType.WaterPump,
+  BuildingType.WaterPipe,
+  BuildingType.PoliceStation,
+  BuildingType.FireStation,
+  BuildingType.Clinic,
+  BuildingType.School,
 ];
 
 const ToolButton: React.FC<{
@@ -33,9 +93,11 @@ const ToolButton: React.FC<{
   isSelected: boolean;
   onClick: () => void;
   money: number;
-}> = ({ type, isSelected, onClick, money }) => {
+  lock?: ToolLock; // Set while a milestone or the scenario keeps the tool locked
+}> = ({ type, isSelected, onClick, money, lock }) => {
   const config = BUILDINGS[type];
   const canAfford = money >= config.cost;
+  const unavailable = !!lock || (type !== BuildingType.None && !canAfford);
   const isBulldoze = type === BuildingType.None;
   
   // Use 3D color for preview
@@ -44,37 +106,173 @@ const ToolButton: React.FC<{
   return (
     <button
       onClick={onClick}
-      disabled={!isBulldoze && !canAfford}
+      disabled={unavailable}
       className={`
         relative flex flex-col items-center justify-center rounded-lg border-2 transition-all shadow-lg backdrop-blur-sm flex-shrink-0
         w-14 h-14 md:w-16 md:h-16
         ${isSelected ? 'border-white bg-white/20 scale-110 z-10' : 'border-gray-600 bg-gray-900/80 hover:bg-gray-800'}
-        ${!isBulldoze && !canAfford ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
+        ${unavailable ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
       `}
-      title={config.description}
+      title={lock?.reason ?? config.description}
     >
+      {lock && <span className="absolute top-0.5 right-0.5 text-[10px] leading-none">🔒</span>}
       <div className="w-6 h-6 md:w-8 md:h-8 rounded mb-0.5 md:mb-1 border border-black/30 shadow-inner flex items-center justify-center overflow-hidden" style={{ backgroundColor: isBulldoze ? 'transparent' : bgColor }}>
         {isBulldoze && <div className="w-full h-full bg-red-600 text-white flex justify-center items-center font-bold text-base md:text-lg">✕</div>}
         {type === BuildingType.Land && <div className="w-full h-full flex justify-center items-center font-bold text-white text-xs">$$$</div>}
+        {type === BuildingType.Inspect && <div className="w-full h-full flex justify-center items-center font-bold font-serif italic text-white text-base md:text-lg">i</div>}
+        {type === BuildingType.Upgrade && <div className="w-full h-full flex justify-center items-center font-bold text-white text-base md:text-lg">▲</div>}
         {type === BuildingType.Road && <div className="w-full h-2 bg-gray-800 transform -rotate-45"></div>}
         {type === BuildingType.Bridge && <div className="flex flex-col gap-1"><div className="w-full h-1 bg-amber-800"></div><div className="w-full h-1 bg-amber-800"></div></div>}
         {type === BuildingType.Rail && <div className="flex gap-1"><div className="w-1 h-full bg-black/50"></div><div className="w-1 h-full bg-black/50"></div></div>}
       </div>
       <span className="text-[8px] md:text-[10px] font-bold text-white uppercase tracking-wider drop-shadow-md leading-none text-center px-1">{config.name}</span>
-      {config.cost > 0 && (
+      {lock ? (
+        <span className="text-[8px] md:text-[10px] font-mono leading-none text-amber-300">{lock.label}</span>
+      ) : config.cost > 0 && (
         <span className={`text-[8px] md:text-[10px] font-mono leading-none ${canAfford ? 'text-green-300' : 'text-red-400'}`}>${config.cost}</span>
       )}
     </button>
   );
 };
 
+// Gradient key for the active map overlay, matching the tile tints in IsoMap
+const OverlayLegend: React.FC<{ config: MapOverlayConfig }> = ({ config }) => {
+  const [from, to] = config.hues.map(hue => hue * 360);
+  const stops = [from, (from + to) / 2, to].map(hue => `hsl(${hue}, 90%, 50%)`).join(', ');
+  return (
+    <div className="bg-gray-900/90 px-3 py-2 rounded-xl border border-gray-700 shadow-2xl backdrop-blur-md w-48">
+      <div className="text-[10px] text-gray-400 uppercase font-bold tracking-widest mb-1">{config.label}</div>
+      <div className="h-2 rounded-full" style={{ background: `linear-gradient(to right, ${stops})` }}></div>
+      <div className="flex justify-between text-[10px] text-gray-300 mt-1">
+        <span>{config.low}</span>
+        <span>{config.high}</span>
+      </div>
+    </div>
+  );
+};
+
+const UTILITY_METERS: Record<Utility, { label: string; className: string }> = {
+  power: { label: 'Power', className: 'text-amber-300' },
+  water: { label: 'Water', className: 'text-sky-300' },
+};
+
+// City-wide need against capacity; red when the plants can't keep up
+const UtilityMeters: React.FC<{ utilities: UtilityReport }> = ({ utilities }) => (
+  <div className="flex flex-col gap-0.5" title="Demand / supply">
+    {UTILITIES.map(utility => {
+      const { supply, demand } = utilities[utility];
+      const { label, className } = UTILITY_METERS[utility];
+      return (
+        <div key={utility} className="flex justify-between gap-2 text-[8px] md:text-[10px] font-bold uppercase tracking-widest">
+          <span className="text-gray-400">{label}</span>
+          <span className={`font-mono ${demand > supply ? 'text-red-400' : className}`}>{Math.round(demand)}/{supply}</span>
+        </div>
+      );
+    })}
+  </div>
+);
+
+const SPEED_LABELS: Record<GameSpeed, string> = { 0: '❚❚', 1: '▶', 2: '▶▶', 4: '▶▶▶' };
+
+// Pause and fast-forward; building still works while paused
+const SpeedControls: React.FC<{ speed: GameSpeed; onSetSpeed: (speed: GameSpeed) => void }> = ({ speed, onSetSpeed }) => (
+  <div className="flex gap-0.5" title="Game speed (Space pauses)">
+    {GAME_SPEEDS.map(option => (
+      <button
+        key={option}
+        onClick={() => onSetSpeed(option)}
+        className={`px-1.5 py-1 rounded text-[8px] md:text-[10px] font-bold tracking-tighter border transition-colors ${speed === option ? 'bg-white/20 border-white text-white' : 'bg-gray-800 border-gray-700 text-gray-400 hover:bg-gray-700'}`}
+      >
+        {SPEED_LABELS[option]}
+      </button>
+    ))}
+  </div>
+);
+
+// Residential/Commercial/Industrial demand, bars grow up when wanted and down when over-zoned
+const DemandBars: React.FC<{ demand: ZoneDemand }> = ({ demand }) => {
+  const bars: { key: keyof ZoneDemand; label: string; color: string }[] = [
+    { key: 'residential', label: 'R', color: BUILDINGS[BuildingType.Residential].color },
+    { key: 'commercial', label: 'C', color: BUILDINGS[BuildingType.Commercial].color },
+    { key: 'industrial', label: 'I', color: BUILDINGS[BuildingType.Industrial].color },
+  ];
+
+  return (
+    <div className="flex gap-1 items-end" title="Zone demand: up means wanted, down means over-built">
+      {bars.map(({ key, label, color }) => {
+        const value = demand[key];
+        const height = Math.round(Math.abs(value) * 14);
+        return (
+          <div key={key} className="flex flex-col items-center">
+            <div className="relative w-2 md:w-2.5 h-7 bg-gray-800 rounded-sm overflow-hidden">
+              <div className="absolute left-0 right-0 top-1/2 h-px bg-gray-600"></div>
+              <div
+                className="absolute left-0 right-0 transition-all duration-500"
+                style={{
+                  backgroundColor: value >= 0 ? color : '#7f1d1d',
+                  height,
+                  ...(value >= 0 ? { bottom: '50%' } : { top: '50%' }),
+                }}
+              ></div>
+            </div>
+            <span className="text-[8px] font-bold mt-0.5" style={{ color }}>{label}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
 const UIOverlay: React.FC<UIOverlayProps> = ({
   stats,
+  demand,
+  utilities,
+  taxRates,
+  budget,
+  statsHistory,
+  onExportStats,
+  onSetTaxRate,
+  loans,
+  onTakeLoan,
+  onRepayLoan,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  advisor,
+  goalProgress,
+  goalStatus,
+  onRequestGoal,
+  scenario,
+  scenarioProgress,
+  aiSettings,
+  onAISettingsChange,
+  disasters,
+  onSetDisasters,
+  undoDepth,
+  onSetUndoDepth,
+  overlay,
+  onSetOverlay,
   selectedTool,
   onSelectTool,
+  toolLocks,
+  inspection,
+  onInspectorAction,
+  onCloseInspector,
   newsFeed,
+  cityName,
+  onSave,
+  onExport,
+  speed,
+  onSetSpeed,
 }) => {
   const newsRef = useRef<HTMLDivElement>(null);
+  const debt = totalDebt(loans);
+  const [openPanel, setOpenPanel] = useState<PanelId | null>(null);
+  const togglePanel = (panel: PanelId) => setOpenPanel(current => (current === panel ? null : panel));
+  const toggleButtonClass = (active: boolean) =>
+    `px-3 py-2 rounded-xl border shadow-2xl backdrop-blur-md text-[10px] font-bold uppercase tracking-widest transition-colors ${active ? 'bg-white/20 border-white text-white' : 'bg-gray-900/90 border-gray-700 text-gray-300 hover:bg-gray-800'}`;
+  const panelButtonClass = (panel: PanelId) => toggleButtonClass(openPanel === panel);
 
   // Auto-scroll news
   useEffect(() => {
@@ -89,11 +287,13 @@ const UIOverlay: React.FC<UIOverlayProps> = ({
       {/* Top Bar: Stats */}
       <div className="flex flex-col md:flex-row md:justify-between md:items-start pointer-events-auto gap-2 w-full max-w-full">
         
-        {/* Stats */}
+        {/* Stats and tile inspector */}
+        <div className="flex flex-col items-start gap-2 w-full md:w-auto">
         <div className="bg-gray-900/90 text-white p-2 md:p-3 rounded-xl border border-gray-700 shadow-2xl backdrop-blur-md flex gap-3 md:gap-6 items-center justify-between md:justify-start w-full md:w-auto">
           <div className="flex flex-col">
             <span className="text-[8px] md:text-[10px] text-gray-400 uppercase font-bold tracking-widest">Treasury</span>
-            <span className="text-lg md:text-2xl font-black text-green-400 font-mono drop-shadow-md">${stats.money.toLocaleString()}</span>
+            <span className={`text-lg md:text-2xl font-black font-mono drop-shadow-md ${stats.money < 0 ? 'text-red-400' : 'text-green-400'}`}>{stats.money < 0 ? '-' : ''}${Math.abs(stats.money).toLocaleString()}</span>
+            {debt > 0 && <span className="text-[8px] md:text-[10px] font-mono text-red-300" title="Still owed on loans, interest included">Debt ${debt.toLocaleString()}</span>}
           </div>
           <div className="w-px h-6 md:h-8 bg-gray-700"></div>
           <div className="flex flex-col">
@@ -105,15 +305,91 @@ const UIOverlay: React.FC<UIOverlayProps> = ({
              <span className="text-[8px] md:text-[10px] text-gray-400 uppercase font-bold tracking-widest">Day</span>
              <span className="text-base md:text-lg font-bold text-white font-mono">{stats.day}</span>
           </div>
+          <SpeedControls speed={speed} onSetSpeed={onSetSpeed} />
+          <div className="w-px h-6 md:h-8 bg-gray-700"></div>
+          <UtilityMeters utilities={utilities} />
+          <div className="w-px h-6 md:h-8 bg-gray-700"></div>
+          <DemandBars demand={demand} />
+        </div>
+        {inspection && <InspectorPanel report={inspection} onAction={onInspectorAction} onClose={onCloseInspector} />}
         </div>
 
-        {/* Removed AI Advisor Panel */}
+        {/* AI Advisor and scenario goals */}
+        <div className="flex flex-col gap-2 w-full md:w-auto">
+          <AdvisorPanel advisor={advisor} progress={goalProgress} status={goalStatus} onRequestGoal={onRequestGoal} />
+          {scenario && <ScenarioPanel scenario={scenario} progress={scenarioProgress} day={stats.day} />}
+        </div>
+
+        {/* Menus */}
+        <div className="flex flex-col items-end gap-2">
+          <div className="flex gap-2">
+            <button onClick={() => togglePanel('budget')} className={panelButtonClass('budget')}>Budget</button>
+            <button onClick={() => togglePanel('charts')} className={panelButtonClass('charts')}>Charts</button>
+            <button onClick={() => togglePanel('save')} className={panelButtonClass('save')}>Save / Export</button>
+            <button onClick={() => togglePanel('settings')} className={panelButtonClass('settings')}>Settings</button>
+          </div>
+          <div className="flex gap-1 flex-wrap justify-end">
+            {(Object.keys(MAP_OVERLAYS) as Exclude<MapOverlay, 'none'>[]).map(id => (
+              <button key={id} onClick={() => onSetOverlay(overlay === id ? 'none' : id)} className={toggleButtonClass(overlay === id)}>
+                {MAP_OVERLAYS[id].label}
+              </button>
+            ))}
+          </div>
+          {overlay !== 'none' && <OverlayLegend config={MAP_OVERLAYS[overlay]} />}
+          {openPanel === 'budget' && (
+            <BudgetPanel
+              taxRates={taxRates}
+              budget={budget}
+              onSetTaxRate={onSetTaxRate}
+              loans={loans}
+              population={stats.population}
+              onTakeLoan={onTakeLoan}
+              onRepayLoan={onRepayLoan}
+              onClose={() => setOpenPanel(null)}
+            />
+          )}
+          {openPanel === 'charts' && (
+            <ChartsPanel history={statsHistory} onExportCsv={onExportStats} onClose={() => setOpenPanel(null)} />
+          )}
+          {openPanel === 'save' && (
+            <SaveMenu cityName={cityName} onSave={onSave} onExport={onExport} onClose={() => setOpenPanel(null)} />
+          )}
+          {openPanel === 'settings' && (
+            <SettingsPanel
+              settings={aiSettings}
+              onChange={onAISettingsChange}
+              onClose={() => setOpenPanel(null)}
+              disasters={disasters}
+              onSetDisasters={onSetDisasters}
+              undoDepth={undoDepth}
+              onSetUndoDepth={onSetUndoDepth}
+            />
+          )}
+        </div>
       </div>
 
       {/* Bottom Bar: Tools & News */}
       <div className="flex flex-col-reverse md:flex-row md:justify-between md:items-end pointer-events-auto mt-auto gap-2 w-full max-w-full">
         
         <div className="flex gap-1 md:gap-2 bg-gray-900/80 p-1 md:p-2 rounded-2xl border border-gray-600/50 backdrop-blur-xl shadow-2xl w-full md:w-auto overflow-x-auto no-scrollbar justify-start md:justify-start">
+          <div className="flex flex-col gap-1 justify-center border-r border-gray-700 pr-1 md:pr-2">
+            <button
+              onClick={onUndo}
+              disabled={!canUndo}
+              title="Undo (Ctrl+Z)"
+              className="w-8 h-6 md:w-10 md:h-7 rounded-md border border-gray-600 bg-gray-900/80 text-white text-sm font-bold hover:bg-gray-800 disabled:opacity-30 disabled:cursor-not-allowed"
+            >
+              ↶
+            </button>
+            <button
+              onClick={onRedo}
+              disabled={!canRedo}
+              title="Redo (Ctrl+Y)"
+              className="w-8 h-6 md:w-10 md:h-7 rounded-md border border-gray-600 bg-gray-900/80 text-white text-sm font-bold hover:bg-gray-800 disabled:opacity-30 disabled:cursor-not-allowed"
+            >
+              ↷
+            </button>
+          </div>
           <div className="flex gap-1 md:gap-2 min-w-max px-1">
             {tools.map((type) => (
               <ToolButton
@@ -122,6 +398,7 @@ const UIOverlay: React.FC<UIOverlayProps> = ({
                 isSelected={selectedTool === type}
                 onClick={() => onSelectTool(type)}
                 money={stats.money}
+                lock={toolLocks[type]}
               />
             ))}
           </div>
@@ -4,13 +4,270 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { BuildingConfig, BuildingType } from './types';
+import { BuildingConfig, BuildingType, CityEventKind, CivicMetric, Coastline, DensityLevel, DisasterFrequency, GameSpeed, LoanTerm, MapOverlay, MapOverlayConfig, MapPreset, Milestone, Scenario, ServiceKind } from './types';
 
 // Map Settings
-export const GRID_SIZE = 25;
+export const GRID_SIZE = 25; // Default map size, used by the Classic preset
+
+export const MAP_PRESETS: MapPreset[] = [
+  {
+    id: 'classic',
+    name: 'Classic',
+    description: 'One winding river through the heart of town.',
+    options: {
+      size: GRID_SIZE,
+      rivers: 1,
+      riverWidth: 3,
+      riverBranches: 1,
+      lakes: 0,
+      coastline: 'none',
+      startPlot: { anchor: 'center', size: 5 },
+      landPrice: { base: 5000, variance: 5000, distanceRate: 500, exponent: 1, waterfrontBonus: 0 },
+    },
+  },
+  {
+    id: 'river-valley',
+    name: 'River Valley',
+    description: 'Two rivers and a lake in a wide valley. Waterfront plots sell high.',
+    options: {
+      size: 32,
+      rivers: 2,
+      riverWidth: 2,
+      riverBranches: 1,
+      lakes: 1,
+      coastline: 'none',
+      startPlot: { anchor: 'center', size: 5 },
+      landPrice: { base: 4000, variance: 3000, distanceRate: 300, exponent: 1.1, waterfrontBonus: 1500 },
+    },
+  },
+  {
+    id: 'island',
+    name: 'Island',
+    description: 'Surrounded by sea. Land is scarce and expensive.',
+    options: {
+      size: 30,
+      rivers: 0,
+      riverWidth: 2,
+      riverBranches: 1,
+      lakes: 1,
+      coastline: 'island',
+      startPlot: { anchor: 'center', size: 5 },
+      landPrice: { base: 6000, variance: 4000, distanceRate: 250, exponent: 1.2, waterfrontBonus: 2500 },
+    },
+  },
+  {
+    id: 'delta',
+    name: 'Delta',
+    description: 'A river splits into channels before reaching the southern coast.',
+    options: {
+      size: 32,
+      rivers: 1,
+      riverWidth: 2,
+      riverBranches: 3,
+      lakes: 0,
+      coastline: 'south',
+      startPlot: { anchor: 'random', size: 4 },
+      landPrice: { base: 3500, variance: 3500, distanceRate: 400, exponent: 1, waterfrontBonus: 1000 },
+    },
+  },
+];
+
+// Choices for tweaking a preset on the start screen
+export const MAP_SIZE_OPTIONS = [20, 25, 30, 32, 40]; // Includes every preset size
+export const MAX_MAP_RIVERS = 3;
+export const MAX_MAP_LAKES = 4;
+export const COASTLINE_LABELS: Record<Coastline, string> = {
+  none: 'None', north: 'North', south: 'South', east: 'East', west: 'West', island: 'Island',
+};
+
+// Built-in scenarios listed on the start screen. Custom ones use the same shape as JSON.
+export const SCENARIOS: Scenario[] = [
+  {
+    id: 'first-steps',
+    name: 'First Steps',
+    description: 'A small budget on the river. Grow a town before the money runs dry.',
+    map: { preset: 'classic', seed: 1234 },
+    startingMoney: 30000,
+    lockedBuildings: [BuildingType.Rail, BuildingType.TrainStation],
+    unlockedBuildings: [],
+    goals: [{ targetType: 'population', targetValue: 500, deadline: 40 }],
+    failures: [],
+  },
+  {
+    id: 'island-resort',
+    name: 'Island Resort',
+    description: 'No factories on this island. Live off shops and visitors and build up savings.',
+    map: { preset: 'island', seed: 42 },
+    startingMoney: 25000,
+    lockedBuildings: [BuildingType.Industrial],
+    unlockedBuildings: [],
+    goals: [
+      { targetType: 'population', targetValue: 1500, deadline: 90 },
+      { targetType: 'money', targetValue: 40000 },
+    ],
+    failures: [{ targetType: 'money', below: -5000 }],
+  },
+  {
+    id: 'delta-boomtown',
+    name: 'Delta Boomtown',
+    description: 'Settlers are pouring into the delta. Link it by rail and keep them from leaving.',
+    map: { preset: 'delta', seed: 777 },
+    startingMoney: 15000,
+    lockedBuildings: [],
+    unlockedBuildings: [BuildingType.Rail, BuildingType.TrainStation],
+    goals: [
+      { targetType: 'population', targetValue: 2000, deadline: 60 },
+      { targetType: 'building_count', buildingType: BuildingType.TrainStation, targetValue: 2, deadline: 60 },
+    ],
+    failures: [{ targetType: 'population', below: 200, fromDay: 30 }],
+  },
+];
 
 // Game Settings
-export const TICK_RATE_MS = 2000; // Game loop updates every 2 seconds
+export const TICK_RATE_MS = 2000; // Game loop updates every 2 seconds at 1× speed
+export const GAME_SPEEDS: GameSpeed[] = [0, 1, 2, 4]; // 0 is paused
+export const CLOCK_STEP_MS = 200; // How often the game clock advances
+export const MAX_CLOCK_STEP_MS = 1000; // Longer gaps between steps (a throttled background tab) are dropped, not replayed
+export const DAY_NIGHT_TICKS = 100; // Ticks in one day/night cycle
+
+// Trains
+export const TRAIN_TILES_PER_TICK = 2;
+export const STATIONS_PER_TRAIN = 2; // Each connected group of stations runs one train per this many stations
+export const MAX_TRAINS = 8;
+
+// Traffic
+export const COMMUTER_SHARE = 0.5; // Residents on the road at any time
+export const TRIP_DESTINATIONS = 3; // Each home commutes to this many of its nearest jobs and shops
+export const ROAD_CAPACITY = 40; // Cars a road tile carries before it congests
+export const CONGESTION_INCOME_PENALTY = 0.5; // Share of commercial income lost next to fully jammed roads
+export const CONGESTION_LAND_PENALTY = 0.3; // Share of land value lost next to fully jammed roads
+export const CONGESTION_ROUTE_PENALTY = 2; // Extra steps a fully jammed road tile costs a route
+export const CONGESTION_ROUTE_STEPS = 4; // Congestion is rounded to quarters when routing, so small changes reuse routes
+
+// Land value, recomputed once a day
+export const LAND_VALUE_RADIUS = 3; // Tiles (Manhattan distance) a neighbour's influence reaches
+export const LAND_VALUE_EFFECTS: Partial<Record<BuildingType, number>> = {
+  [BuildingType.Park]: 0.12,
+  [BuildingType.TrainStation]: 0.2,
+  [BuildingType.Commercial]: 0.03,
+  [BuildingType.Industrial]: -0.15,
+  [BuildingType.PowerPlant]: -0.2,
+};
+export const WATER_LAND_VALUE = 0.03; // Per nearby water tile
+export const LAND_VALUE_RANGE: [number, number] = [0.3, 3]; // Limits on the multiplier over the base price
+export const LAND_VALUE_OUTPUT_WEIGHT = 0.5; // How strongly land value scales home and shop output
+
+// Pollution spreads from factories, rail and busy roads
+export const AIR_POLLUTION_RADIUS = 4;
+export const NOISE_POLLUTION_RADIUS = 2;
+export const ROAD_AIR_POLLUTION = 0.06; // Emitted by a road carrying its capacity
+export const ROAD_NOISE_POLLUTION = 0.15;
+
+// Happiness, 0 to 1 on each tile
+export const BASE_HAPPINESS = 0.5;
+export const AIR_POLLUTION_UNHAPPINESS = 0.4; // Lost under full air pollution
+export const NOISE_POLLUTION_UNHAPPINESS = 0.25;
+export const SERVICE_HAPPINESS: Record<ServiceKind, number> = { // Gained with full coverage
+  park: 0.25,
+  transit: 0.1,
+  police: 0.05,
+  fire: 0.05,
+  health: 0.1,
+  education: 0.1,
+};
+export const HAPPINESS_GROWTH_WEIGHT = 1; // Home growth is scaled by 1 + (happiness - BASE_HAPPINESS) * weight
+
+// Civic conditions. Crime and fire risk grow with density and fall with police and fire cover;
+// health and education follow clinic and school cover.
+export const CRIME_PER_LEVEL = 0.2; // Crime on an unpoliced zoned building, per density level
+export const FIRE_RISK_PER_LEVEL = 0.1; // Fire risk on a building without fire cover, per density level
+export const CIVIC_EFFECTS: Record<CivicMetric, { growth: number; landValue: number }> = { // Multiplier change at 1
+  crime: { growth: -0.5, landValue: -0.4 },
+  fireRisk: { growth: -0.2, landValue: -0.2 },
+  health: { growth: 0.2, landValue: 0.1 },
+  education: { growth: 0.15, landValue: 0.2 },
+};
+
+// Density levels for buildings that densify. Once a day each one may grow a level when its
+// zone is in demand and the next level's land value and coverage thresholds are met.
+export const DENSITY_LEVELS: DensityLevel[] = [
+  { output: 1, landValue: 0, coverage: 0 },
+  { output: 1.8, landValue: 1.05, coverage: 0.15 },
+  { output: 2.8, landValue: 1.3, coverage: 0.35 },
+];
+export const DENSITY_GROWTH_DEMAND = 0.1; // Zone demand needed to grow
+export const DENSITY_DECLINE_DEMAND = -0.4; // Zone demand below which buildings shrink
+export const DENSITY_DECLINE_MARGIN = 0.15; // How far land value or coverage may slip under a level's threshold before it shrinks
+export const DENSITY_CHANGE_CHANCE = 0.25; // Daily chance that an eligible building changes level
+export const UPGRADE_COST_MULTIPLIER = 2; // A manual upgrade costs build cost × this × current level
+
+// Random events. Each day there is a chance of one disaster and a separate chance of an economic boom.
+export const DISASTER_FREQUENCIES: Record<DisasterFrequency, { label: string; chance: number }> = {
+  off: { label: 'Off', chance: 0 },
+  rare: { label: 'Rare', chance: 0.04 },
+  normal: { label: 'Normal', chance: 0.1 },
+  frequent: { label: 'Frequent', chance: 0.25 },
+};
+export const DEFAULT_DISASTER_FREQUENCY: DisasterFrequency = 'normal';
+export const BOOM_CHANCE = 0.04;
+export const EVENT_DAYS: Record<CityEventKind, number> = { flood: 3, fire: 1, accident: 2, boom: 5 };
+export const FLOOD_RADIUS = 2; // Riverbank tiles this far from where the water breaks through are flooded
+export const FIRE_SPREAD = 1.5; // A neighbour catches fire with its fire risk × this
+export const ACCIDENT_CLEANUP_COST = 400;
+export const BOOM_INCOME_MULTIPLIER = 1.5; // Commercial and industrial income during a boom
+
+export const MAP_OVERLAYS: Record<Exclude<MapOverlay, 'none'>, MapOverlayConfig> = {
+  traffic: { label: 'Traffic', low: 'Free flow', high: 'Jammed', hues: [0.33, 0] },
+  landValue: { label: 'Land Value', low: '½× base', high: '1½× base', hues: [0, 0.33] },
+  pollution: { label: 'Pollution', low: 'Clean', high: 'Polluted', hues: [0.33, 0.8] },
+  happiness: { label: 'Happiness', low: 'Miserable', high: 'Content', hues: [0, 0.33] },
+  coverage: { label: 'Coverage', low: 'Unserved', high: 'Served', hues: [0, 0.55] },
+};
+
+// Pedestrians (timeOfDay runs from 0 at dawn to 1 at dusk)
+export const RESIDENTS_PER_COMMUTER = 2;
+export const MAX_COMMUTERS = 300;
+export const MORNING_COMMUTE: [number, number] = [0.05, 0.2]; // Window for leaving home
+export const EVENING_COMMUTE: [number, number] = [0.65, 0.8]; // Window for heading back
+export const COMMUTE_WALK_SPEED = 100; // Tiles per full day
+export const TICKS_PER_DAY = 10; // Day counter advances every 10 ticks (approx 20 seconds)
+export const HEADLINE_CHANCE = 0.15; // Chance per tick to request an AI headline
+export const DEMOLISH_COST = 5;
+// Loans. Interest is a flat share of the amount borrowed, spread over the term.
+export const LOAN_AMOUNTS = [2000, 5000, 10000];
+export const LOAN_TERMS: Record<LoanTerm, { label: string; days: number; interest: number }> = {
+  loan: { label: 'Bank Loan', days: 20, interest: 0.05 },
+  bond: { label: 'City Bond', days: 60, interest: 0.15 },
+};
+export const BASE_CREDIT_LIMIT = 10000; // Debt a city with no residents may carry
+export const CREDIT_PER_RESIDENT = 25;
+export const BANKRUPTCY_GRACE_DAYS = 10; // Days the treasury may stay below zero before the city goes bankrupt
+
+// Milestones. Tools not listed here are available from day 1.
+export const MILESTONES: Milestone[] = [
+  { id: 'hamlet', name: 'Hamlet', metric: 'population', value: 50, unlocks: [BuildingType.Land, BuildingType.Bridge], reward: 1000 },
+  { id: 'village', name: 'Village', metric: 'population', value: 250, unlocks: [BuildingType.Upgrade, BuildingType.PoliceStation, BuildingType.FireStation], reward: 2500 },
+  { id: 'town', name: 'Town', metric: 'income', value: 1000, unlocks: [BuildingType.Clinic, BuildingType.School], reward: 5000 },
+  { id: 'city', name: 'City', metric: 'population', value: 1000, unlocks: [BuildingType.Rail, BuildingType.TrainStation], reward: 10000 },
+];
+
+export const UNDO_HISTORY_DEPTH = 50; // Commands kept for undo/redo
+export const UNDO_DEPTH_OPTIONS = [10, 25, 50, 100]; // Choices offered in settings
+export const STATS_HISTORY_DAYS = 1000; // Days of stats kept for the charts; older days are dropped
+
+// Demand Model
+export const WORKFORCE_RATIO = 0.6; // Share of residents who hold a job
+export const BASE_RESIDENTIAL_DEMAND = 100; // Residents who would move in even with no local jobs
+export const COMMERCIAL_JOBS_PER_RESIDENT = 0.25; // Shop jobs a resident's spending supports
+export const INDUSTRIAL_JOBS_PER_RESIDENT = 0.2;
+export const INDUSTRIAL_JOBS_PER_COMMERCIAL_JOB = 0.5; // Shops also need goods
+export const MIN_RESIDENTIAL_GROWTH = 0.25; // Growth rate kept even when housing outpaces jobs
+
+// Taxes & Budget
+export const DEFAULT_TAX_RATE = 9; // Percent. incomeGen values are balanced for this rate
+export const MAX_TAX_RATE = 20;
+export const RESIDENT_TAX_PER_TICK = 0.1; // Per resident, at the default rate
+export const TAX_GROWTH_SENSITIVITY = 0.07; // Growth lost per point of tax above the default (gained below it)
 export const INITIAL_MONEY = 50000; // Increased starting money to allow buying expensive land/trains
 export const LAND_COST = 500; // Base cost, overridden by tile specific price
 export const LAND_SELL = 250; // Base sell, overridden by tile specific price
@@ -24,6 +281,7 @@ export const BUILDINGS: Record<BuildingType, BuildingConfig> = {
     color: '#ef4444', // Used for UI
     popGen: 0,
     incomeGen: 0,
+    upkeep: 0,
   },
   [BuildingType.Road]: {
     type: BuildingType.Road,
@@ -33,6 +291,8 @@ export const BUILDINGS: Record<BuildingType, BuildingConfig> = {
     color: '#374151', // gray-700
     popGen: 0,
     incomeGen: 0,
+    upkeep: 1,
+    budgetCategory: 'roads',
   },
   [BuildingType.Residential]: {
     type: BuildingType.Residential,
@@ -42,6 +302,13 @@ export const BUILDINGS: Record<BuildingType, BuildingConfig> = {
     color: '#f87171', // red-400
     popGen: 5,
     incomeGen: 0,
+    upkeep: 1,
+    budgetCategory: 'zones',
+    needsRoad: true,
+    zone: 'residential',
+    housing: 50,
+    densifies: true,
+    consumes: { power: 5, water: 5 },
   },
   [BuildingType.Commercial]: {
     type: BuildingType.Commercial,
@@ -51,6 +318,13 @@ export const BUILDINGS: Record<BuildingType, BuildingConfig> = {
     color: '#60a5fa', // blue-400
     popGen: 0,
     incomeGen: 15,
+    upkeep: 2,
+    budgetCategory: 'zones',
+    needsRoad: true,
+    zone: 'commercial',
+    jobs: 10,
+    densifies: true,
+    consumes: { power: 8, water: 4 },
   },
   [BuildingType.Industrial]: {
     type: BuildingType.Industrial,
@@ -60,6 +334,15 @@ export const BUILDINGS: Record<BuildingType, BuildingConfig> = {
     color: '#facc15', // yellow-400
     popGen: 0,
     incomeGen: 40,
+    upkeep: 4,
+    budgetCategory: 'zones',
+    needsRoad: true,
+    zone: 'industrial',
+    jobs: 20,
+    densifies: true,
+    fireHazard: 2,
+    consumes: { power: 15, water: 10 },
+    pollution: { air: 0.35, noise: 0.25 },
   },
   [BuildingType.Park]: {
     type: BuildingType.Park,
@@ -69,6 +352,9 @@ export const BUILDINGS: Record<BuildingType, BuildingConfig> = {
     color: '#4ade80', // green-400
     popGen: 1,
     incomeGen: 0,
+    upkeep: 2,
+    budgetCategory: 'parks',
+    service: { kind: 'park', radius: 3 },
   },
   [BuildingType.Rail]: {
     type: BuildingType.Rail,
@@ -78,15 +364,27 @@ export const BUILDINGS: Record<BuildingType, BuildingConfig> = {
     color: '#57534e', // stone-600
     popGen: 0,
     incomeGen: 0,
+    upkeep: 3,
+    budgetCategory: 'transit',
+    pollution: { air: 0, noise: 0.15 },
   },
   [BuildingType.TrainStation]: {
     type: BuildingType.TrainStation,
     cost: 5000,
     name: 'Station',
-    description: '+$200/day',
+    description: '+$200 per train',
     color: '#dc2626', // red-600
     popGen: 10,
     incomeGen: 200,
+    incomeOnArrival: true,
+    upkeep: 40,
+    budgetCategory: 'transit',
+    needsRoad: true,
+    zone: 'commercial',
+    jobs: 15,
+    consumes: { power: 20, water: 5 },
+    pollution: { air: 0, noise: 0.15 },
+    service: { kind: 'transit', radius: 5 },
   },
   [BuildingType.Bridge]: {
     type: BuildingType.Bridge,
@@ -96,6 +394,110 @@ export const BUILDINGS: Record<BuildingType, BuildingConfig> = {
     color: '#d97706', // amber-600
     popGen: 0,
     incomeGen: 0,
+    upkeep: 8,
+    budgetCategory: 'roads',
+  },
+  [BuildingType.PowerPlant]: {
+    type: BuildingType.PowerPlant,
+    cost: 3000,
+    name: 'Power Plant',
+    description: 'Powers 400 units',
+    color: '#78716c', // stone-500
+    popGen: 0,
+    incomeGen: 0,
+    upkeep: 25,
+    budgetCategory: 'utilities',
+    supplies: { power: 400 },
+    fireHazard: 2,
+    pollution: { air: 0.5, noise: 0.3 },
+  },
+  [BuildingType.PowerLine]: {
+    type: BuildingType.PowerLine,
+    cost: 20,
+    name: 'Power Line',
+    description: 'Carries power',
+    color: '#fbbf24', // amber-400
+    popGen: 0,
+    incomeGen: 0,
+    upkeep: 1,
+    budgetCategory: 'utilities',
+    carries: ['power'],
+  },
+  [BuildingType.WaterPump]: {
+    type: BuildingType.WaterPump,
+    cost: 2000,
+    name: 'Water Pump',
+    description: 'Supplies 300 units',
+    color: '#38bdf8', // sky-400
+    popGen: 0,
+    incomeGen: 0,
+    upkeep: 15,
+    budgetCategory: 'utilities',
+    supplies: { water: 300 },
+  },
+  [BuildingType.WaterPipe]: {
+    type: BuildingType.WaterPipe,
+    cost: 20,
+    name: 'Water Pipe',
+    description: 'Carries water',
+    color: '#0ea5e9', // sky-500
+    popGen: 0,
+    incomeGen: 0,
+    upkeep: 1,
+    budgetCategory: 'utilities',
+    carries: ['water'],
+  },
+  [BuildingType.PoliceStation]: {
+    type: BuildingType.PoliceStation,
+    cost: 800,
+    name: 'Police',
+    description: 'Cuts crime nearby',
+    color: '#1d4ed8', // blue-700
+    popGen: 0,
+    incomeGen: 0,
+    upkeep: 8,
+    budgetCategory: 'services',
+    needsRoad: true,
+    service: { kind: 'police', radius: 6 },
+  },
+  [BuildingType.FireStation]: {
+    type: BuildingType.FireStation,
+    cost: 800,
+    name: 'Fire Dept',
+    description: 'Cuts fire risk nearby',
+    color: '#b91c1c', // red-700
+    popGen: 0,
+    incomeGen: 0,
+    upkeep: 8,
+    budgetCategory: 'services',
+    needsRoad: true,
+    service: { kind: 'fire', radius: 6 },
+  },
+  [BuildingType.Clinic]: {
+    type: BuildingType.Clinic,
+    cost: 1200,
+    name: 'Clinic',
+    description: 'Keeps residents healthy',
+    color: '#f1f5f9', // slate-100
+    popGen: 0,
+    incomeGen: 0,
+    upkeep: 12,
+    budgetCategory: 'services',
+    needsRoad: true,
+    service: { kind: 'health', radius: 5 },
+  },
+  [BuildingType.School]: {
+    type: BuildingType.School,
+    cost: 1000,
+    name: 'School',
+    description: 'Educates residents',
+    color: '#ea580c', // orange-600
+    popGen: 0,
+    incomeGen: 0,
+    upkeep: 10,
+    budgetCategory: 'services',
+    needsRoad: true,
+    service: { kind: 'education', radius: 5 },
   },
   [BuildingType.Land]: {
     type: BuildingType.Land,
@@ -105,5 +507,26 @@ export const BUILDINGS: Record<BuildingType, BuildingConfig> = {
     color: '#8b5cf6', // violet-500
     popGen: 0,
     incomeGen: 0,
+    upkeep: 0,
+  },
+  [BuildingType.Upgrade]: {
+    type: BuildingType.Upgrade,
+    cost: 0,
+    name: 'Upgrade',
+    description: 'Pay to raise a home, shop or factory one density level',
+    color: '#14b8a6', // teal-500
+    popGen: 0,
+    incomeGen: 0,
+    upkeep: 0,
+  },
+  [BuildingType.Inspect]: {
+    type: BuildingType.Inspect,
+    cost: 0,
+    name: 'Inspect',
+    description: 'Click a tile to see what it earns and what affects it',
+    color: '#64748b', // slate-500
+    popGen: 0,
+    incomeGen: 0,
+    upkeep: 0,
   },
 };
\ No newline at end of file
@@ -0,0 +1,262 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Deterministic smoke checks for the pure simulation and save code.
+//
+//   npm test
+//
+// Runs every check and exits non-zero if any failed.
+import assert from 'node:assert/strict';
+import { BuildingType, Scenario, SimAction, SimState } from '../types';
+import { BUILDINGS, LOAN_TERMS, MAP_PRESETS, MILESTONES, SCENARIOS, TRAIN_TILES_PER_TICK } from '../constants';
+import { createRng } from '../simulation/rng';
+import { createInitialState } from '../simulation/state';
+import { generateMap } from '../simulation/mapgen';
+import { applyAction } from '../simulation/actions';
+import { createHistory, diffStates, recordEntry, redo, undo } from '../simulation/history';
+import { runDays, tick } from '../simulation/tick';
+import { runPlan } from '../simulation/headless';
+import { createScenarioState, parseScenario, restoreScenario } from '../simulation/scenarios';
+import { checkMilestones, toolLock } from '../simulation/milestones';
+import { loanQuote } from '../simulation/loans';
+import { SAVE_VERSION, createSave, parseSave, serializeSave } from '../services/saveService';
+
+const checks: [string, () => void][] = [];
+const check = (name: string, run: () => void) => checks.push([name, run]);
+
+// Compares grids as a save would store them, where a field set to undefined and a missing one are the same
+const plain = (state: SimState) => JSON.parse(JSON.stringify(state.grid));
+
+// A dry map whose 9x9 start plot spans x and y 8..16, reached by a highway along row 12
+const flatCity = (patch: Partial<SimState> = {}): SimState => ({
+  ...createInitialState(1, { ...MAP_PRESETS[0].options, rivers: 0, lakes: 0, startPlot: { anchor: 'center', size: 9 } }),
+  ...patch,
+});
+
+const applyAll = (state: SimState, actions: SimAction[]) => actions.reduce((current, action) => {
+  const result = applyAction(current, action);
+  assert.ok(result.applied, `${action.type} was refused: ${result.notices.map(n => n.text).join(' ')}`);
+  return result.state;
+}, state);
+
+const ownedEmptyTile = (state: SimState) => state.grid.flat().find(t => t.owned && !t.isWater && t.buildingType === BuildingType.None)!;
+
+check('map generation repeats for a seed', () => {
+  MAP_PRESETS.forEach(preset => {
+    assert.deepEqual(generateMap(42, preset.options), generateMap(42, preset.options), preset.id);
+    assert.notDeepEqual(generateMap(42, preset.options), generateMap(43, preset.options), preset.id);
+  });
+});
+
+check('start plot fits on small maps', () => {
+  const options = { ...MAP_PRESETS[0].options, size: 8, startPlot: { anchor: 'random' as const, size: 5 } };
+  for (let seed = 1; seed <= 20; seed++) {
+    assert.equal(generateMap(seed, options).flat().filter(t => t.owned).length, 25, `seed ${seed}`);
+  }
+});
+
+check('simulation repeats for a seed', () => {
+  const run = () => {
+    const state = createInitialState(7, MAP_PRESETS[0].options);
+    return runDays(state, createRng(state.rngState), 20);
+  };
+  assert.deepEqual(run(), run());
+});
+
+check('saves round-trip', () => {
+  const initial = createInitialState(7, MAP_PRESETS[1].options);
+  const sim = runDays(initial, createRng(initial.rngState), 3);
+  const loaded = parseSave(serializeSave(createSave('Test', { sim, newsFeed: [], timeOfDay: 0.25 })));
+  assert.deepEqual(loaded.sim, sim);
+  assert.equal(loaded.timeOfDay, 0.25);
+});
+
+check('unversioned saves migrate to the current version', () => {
+  const { grid, stats } = createInitialState(7, MAP_PRESETS[0].options);
+  const v0 = { grid: grid.map(row => row.map(({ buildingType, owned, isWater }) => ({ buildingType, owned, isWater }))), stats };
+  const loaded = parseSave(JSON.stringify(v0));
+  assert.equal(loaded.version, SAVE_VERSION);
+  assert.equal(loaded.name, 'Imported City');
+  assert.deepEqual(loaded.sim.stats, stats);
+  assert.ok(loaded.sim.grid.flat().some(t => t.buildingType === BuildingType.Road), 'migration lays a highway');
+  assert.throws(() => parseSave(JSON.stringify({ version: SAVE_VERSION + 1 })), /newer version/);
+});
+
+check('saves from before milestones keep every tool', () => {
+  const sim = createInitialState(7, MAP_PRESETS[0].options);
+  const { milestones, ...older } = sim;
+  assert.deepEqual(parseSave(JSON.stringify({ ...createSave('Old', { sim, newsFeed: [], timeOfDay: 0 }), version: 3, sim: older })).sim.milestones, MILESTONES.map(m => m.id));
+  assert.deepEqual(parseSave(JSON.stringify({ ...createSave('New', { sim, newsFeed: [], timeOfDay: 0 }), sim: older })).sim.milestones, milestones);
+});
+
+check('undo and redo round-trip a build', () => {
+  const before = createInitialState(7, MAP_PRESETS[0].options);
+  const { x, y } = ownedEmptyTile(before);
+  const built = applyAction(before, { type: 'build', x, y, building: BuildingType.Park });
+  assert.ok(built.applied);
+  const history = recordEntry(createHistory(), diffStates('park', before, built.state));
+
+  const undone = undo(built.state, history);
+  assert.deepEqual(plain(undone.state), plain(before));
+  assert.equal(undone.state.stats.money, before.stats.money);
+
+  const redone = redo(undone.state, undone.history);
+  assert.deepEqual(plain(redone.state), plain(built.state));
+  assert.equal(redone.state.stats.money, built.state.stats.money);
+  assert.equal(redone.history.past.length, 1);
+});
+
+check('undo is refused after bankruptcy', () => {
+  const before = createInitialState(7, MAP_PRESETS[0].options);
+  const { x, y } = ownedEmptyTile(before);
+  const built = applyAction(before, { type: 'build', x, y, building: BuildingType.Park });
+  const history = recordEntry(createHistory(), diffStates('park', before, built.state));
+  const bankrupt = { ...built.state, bankrupt: true };
+  assert.equal(undo(bankrupt, history).state, bankrupt);
+});
+
+check('a bankrupt city ends a headless run', () => {
+  const initial = createInitialState(1, MAP_PRESETS[0].options);
+  // Power plants cost more upkeep than an empty town can ever earn back
+  const plan = initial.grid.flat()
+    .filter(t => t.owned && !t.isWater && t.buildingType === BuildingType.None)
+    .slice(0, 16)
+    .map(({ x, y }) => ({ day: 1, action: { type: 'build' as const, x, y, building: BuildingType.PowerPlant } }));
+  const finished: number[] = [];
+  const result = runPlan(initial, createRng(initial.rngState), plan, 1000, day => finished.push(day));
+  assert.ok(result.state.bankrupt);
+  assert.equal(result.stoppedBy, 'The city went bankrupt.');
+  assert.ok(result.state.stats.day < 1000, 'run stops well before the last day');
+  assert.equal(finished[finished.length - 1], result.state.stats.day - 1, 'final day is reported');
+});
+
+check('malformed scenarios are rejected', () => {
+  const valid = { name: 'Test', goals: [{ targetType: 'population', targetValue: 100 }] };
+  assert.equal(parseScenario(valid).name, 'Test');
+  assert.throws(() => parseScenario([]), /not a JSON object/);
+  assert.throws(() => parseScenario({ ...valid, name: ' ' }), /needs a name/);
+  assert.throws(() => parseScenario({ ...valid, goals: [] }), /at least one goal/);
+  assert.throws(() => parseScenario({ ...valid, goals: [{ targetType: 'happiness', targetValue: 1 }] }), /Goal 1: targetType/);
+  assert.throws(() => parseScenario({ ...valid, goals: [{ targetType: 'building_count', targetValue: 1 }] }), /valid buildingType/);
+  assert.throws(() => parseScenario({ ...valid, failures: [{ targetType: 'money' }] }), /below or above/);
+  assert.throws(() => parseScenario({ ...valid, lockedBuildings: ['Castle'] }), /Unknown building type "Castle"/);
+  assert.throws(() => parseScenario({ ...valid, map: { preset: 'moon' } }), /Unknown map preset/);
+  assert.throws(() => parseScenario({ ...valid, startingMoney: '5000' }), /startingMoney must be a number/);
+  assert.throws(() => parseScenario({ ...valid, startingMoney: { amount: 5000 } }), /startingMoney must be a number/);
+  assert.throws(() => parseScenario({ ...valid, goals: [{ targetType: 'money', targetValue: 1, description: 5 }] }), /description must be text/);
+  assert.equal(restoreScenario({ scenario: valid, goalsMet: [null], outcome: 'exploded' })?.outcome, 'playing');
+});
+
+// A short scenario on the first built-in map, decided within a few days
+const quickScenario = (patch: Partial<Scenario>): Scenario => ({ ...SCENARIOS[0], failures: [], ...patch });
+
+const playScenario = (scenario: Scenario, days: number) => {
+  const initial = createScenarioState(scenario);
+  return runPlan(initial, createRng(initial.rngState), [], days);
+};
+
+check('a scenario is won once every goal is met', () => {
+  const result = playScenario(quickScenario({ goals: [{ targetType: 'money', targetValue: 1000 }] }), 100);
+  assert.equal(result.state.scenario?.outcome, 'won');
+  assert.deepEqual(result.state.scenario?.goalsMet, [1]);
+  assert.match(result.stoppedBy ?? '', /^Scenario won/);
+});
+
+check('a scenario is lost on a missed deadline or a failure condition', () => {
+  const late = playScenario(quickScenario({ goals: [{ targetType: 'population', targetValue: 1e6, deadline: 3 }] }), 100);
+  assert.equal(late.state.scenario?.outcome, 'lost');
+  assert.equal(late.state.stats.day, 4, 'lost the day after the deadline');
+  assert.match(late.stoppedBy ?? '', /Missed the deadline/);
+
+  const broke = playScenario(quickScenario({
+    goals: [{ targetType: 'population', targetValue: 1e6 }],
+    failures: [{ targetType: 'money', below: SCENARIOS[0].startingMoney + 1 }],
+  }), 100);
+  assert.equal(broke.state.scenario?.outcome, 'lost');
+  assert.match(broke.stoppedBy ?? '', /Failure condition/);
+});
+
+check('loans pay out, are repaid daily and respect the credit limit', () => {
+  const initial = createInitialState(7, MAP_PRESETS[0].options);
+  const { total, payment } = loanQuote('loan', 2000);
+  const borrowed = applyAction(initial, { type: 'takeLoan', term: 'loan', amount: 2000 });
+  assert.ok(borrowed.applied);
+  assert.equal(borrowed.state.stats.money, initial.stats.money + 2000);
+  assert.deepEqual(borrowed.state.loans.map(l => l.balance), [total]);
+  assert.equal(applyAction(borrowed.state, { type: 'takeLoan', term: 'bond', amount: 10000 }).applied, false, 'over the credit limit');
+
+  const rng = createRng(borrowed.state.rngState);
+  const oneDay = runDays(borrowed.state, rng, 1);
+  assert.deepEqual(oneDay.loans.map(l => l.balance), [total - payment]);
+  assert.equal(runDays(oneDay, rng, LOAN_TERMS.loan.days).loans.length, 0, 'paid off by the end of the term');
+
+  const repaid = applyAction(oneDay, { type: 'repayLoan', id: oneDay.loans[0].id });
+  assert.ok(repaid.applied);
+  assert.equal(repaid.state.stats.money, oneDay.stats.money - (total - payment));
+});
+
+check('drag building is all or nothing', () => {
+  const road: SimAction = { type: 'drag', tool: BuildingType.Road, from: { x: 8, y: 12 }, to: { x: 16, y: 12 } };
+  const cost = 9 * BUILDINGS[BuildingType.Road].cost;
+  const short = flatCity();
+  const refused = applyAction({ ...short, stats: { ...short.stats, money: cost - 1 } }, road);
+  assert.equal(refused.applied, false);
+  assert.equal(refused.state.grid, short.grid, 'no tile was built');
+
+  const built = applyAction({ ...short, stats: { ...short.stats, money: cost } }, road);
+  assert.ok(built.applied);
+  assert.equal(built.state.stats.money, 0);
+  assert.equal(built.state.grid[12].slice(8, 17).filter(t => t.buildingType === BuildingType.Road).length, 9);
+});
+
+check('milestones unlock tools and pay their reward once', () => {
+  const city = flatCity();
+  assert.match(toolLock(city, BuildingType.TrainStation)?.reason ?? '', /Unlocks at City/);
+  assert.equal(applyAction(city, { type: 'build', x: 10, y: 11, building: BuildingType.TrainStation }).applied, false);
+
+  const grown = checkMilestones({ ...city, stats: { ...city.stats, population: 1000 } });
+  const reached = MILESTONES.filter(m => m.metric === 'population');
+  assert.deepEqual(grown.state.milestones, reached.map(m => m.id));
+  assert.equal(grown.state.stats.money, city.stats.money + reached.reduce((sum, m) => sum + m.reward, 0));
+  assert.equal(toolLock(grown.state, BuildingType.TrainStation), null);
+  assert.equal(checkMilestones(grown.state).state, grown.state, 'no second payout');
+});
+
+check('stations earn fares only when a train arrives', () => {
+  let state = applyAll(flatCity({ milestones: MILESTONES.map(m => m.id) }), [
+    { type: 'drag', tool: BuildingType.Road, from: { x: 8, y: 12 }, to: { x: 16, y: 12 } },
+    { type: 'build', x: 8, y: 11, building: BuildingType.PowerPlant },
+    { type: 'build', x: 9, y: 11, building: BuildingType.WaterPump },
+    { type: 'build', x: 10, y: 11, building: BuildingType.TrainStation },
+    { type: 'build', x: 16, y: 11, building: BuildingType.TrainStation },
+    { type: 'drag', tool: BuildingType.Rail, from: { x: 11, y: 11 }, to: { x: 15, y: 11 } },
+  ]);
+  const fare = BUILDINGS[BuildingType.TrainStation].incomeGen;
+  const rng = createRng(state.rngState);
+  let arrivals = 0;
+  // Stays within the first day so the daily budget report is never reset
+  for (let i = 0; i < 9; i++) {
+    const arriving = state.trains.filter(t => t.progress + TRAIN_TILES_PER_TICK >= t.route.length - 1).length;
+    const before = state.budget.today.income.transit ?? 0;
+    state = tick(state, rng).state;
+    assert.equal((state.budget.today.income.transit ?? 0) - before, arriving * fare, `tick ${state.tick}`);
+    arrivals += arriving;
+  }
+  assert.ok(arrivals > 0 && arrivals < 9, 'some ticks had arrivals and some did not');
+});
+
+let failed = 0;
+checks.forEach(([name, run]) => {
+  try {
+    run();
+    console.log(`ok - ${name}`);
+  } catch (error) {
+    failed++;
+    console.error(`not ok - ${name}\n${error instanceof Error ? error.message : error}`);
+  }
+});
+if (failed > 0) {
+  console.error(`${failed} of ${checks.length} checks failed.`);
+  process.exit(1);
+}
@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Headless city runner for balancing.
+//
+//   npm run simulate -- --seed 42 --preset river-valley --days 1000 --actions plan.json --every 100
+//
+// The actions file is a JSON array of { "day": number, "action": SimAction },
+// applied at the start of the given day in file order.
+import { readFileSync } from 'node:fs';
+import { createRng } from '../simulation/rng';
+import { createInitialState } from '../simulation/state';
+import { getMapPreset } from '../simulation/mapgen';
+import { PlannedAction, runPlan } from '../simulation/headless';
+import { stopReason } from '../simulation/tick';
+
+const args = process.argv.slice(2);
+const readArg = (name: string) => {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 ? args[i + 1] : undefined;
+};
+
+const seed = Number(readArg('seed') ?? 1);
+const preset = getMapPreset(readArg('preset') ?? 'classic');
+const days = Number(readArg('days') ?? 1000);
+const every = Number(readArg('every') ?? 100);
+const actionsFile = readArg('actions');
+const plan: PlannedAction[] = actionsFile ? JSON.parse(readFileSync(actionsFile, 'utf8')) : [];
+
+const initial = createInitialState(seed, preset.options);
+
+console.log('day,money,population');
+const { rejected, stoppedBy } = runPlan(initial, createRng(initial.rngState), plan, days, (day, state) => {
+  // The last row is always printed, including the day a run stops early
+  if (day % every === 0 || state.stats.day > days || stopReason(state)) {
+    console.log(`${day},${state.stats.money},${state.stats.population}`);
+  }
+});
+
+if (rejected > 0) console.error(`${rejected} planned action(s) were rejected.`);
+if (stoppedBy) console.error(`Run ended early: ${stoppedBy}`);
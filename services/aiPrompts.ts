@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AIGoal, BuildingType, CityStats, Grid, NewsItem } from "../types";
+import { BUILDINGS } from "../constants";
+import { isOneOf, isRecord } from "../simulation/guards";
+
+// Prompts and response parsing shared by every language-model provider
+
+export const GOAL_TARGET_TYPES: AIGoal['targetType'][] = ['population', 'money', 'building_count'];
+
+export const GOAL_BUILDING_TYPES = [
+  BuildingType.Residential, BuildingType.Commercial, BuildingType.Industrial, BuildingType.Park,
+  BuildingType.Road, BuildingType.Land, BuildingType.Rail, BuildingType.TrainStation,
+  BuildingType.PowerPlant, BuildingType.WaterPump, BuildingType.PoliceStation, BuildingType.FireStation,
+  BuildingType.Clinic, BuildingType.School,
+];
+
+export const NEWS_TYPES: NewsItem['type'][] = ['positive', 'negative', 'neutral'];
+
+// Counted the way goal progress is, so the highway and unbought land don't inflate targets
+export const countBuildings = (grid: Grid) => {
+  const counts: Record<string, number> = {};
+  grid.flat().filter(tile => tile.owned).forEach(tile => {
+    counts[tile.buildingType] = (counts[tile.buildingType] || 0) + 1;
+  });
+  return counts;
+};
+
+export const goalContext = (stats: CityStats, grid: Grid) => `
+    Current City Stats:
+    Day: ${stats.day}
+    Money: $${stats.money}
+    Population: ${stats.population}
+    Buildings: ${JSON.stringify(countBuildings(grid))}
+    Building Costs/Stats: ${JSON.stringify(
+      Object.values(BUILDINGS).filter(b => b.type !== BuildingType.None && b.type !== BuildingType.Upgrade && b.type !== BuildingType.Inspect).map(b => ({type: b.type, cost: b.cost, pop: b.popGen, income: b.incomeGen}))
+    )}
+  `;
+
+export const GOAL_PROMPT = `You are the AI City Advisor for a simulation game. Based on the current city stats, generate a challenging but achievable short-term goal for the player to help the city grow. Return JSON.`;
+
+export const newsContext = (stats: CityStats, recentAction: string | null) =>
+  `City Stats - Pop: ${stats.population}, Money: ${stats.money}, Day: ${stats.day}. ${recentAction ? `Recent Action: ${recentAction}` : ''}`;
+
+export const NEWS_PROMPT = "Generate a very short, isometric-sim-city style news headline based on the city state. Can be funny, cynical, or celebratory.";
+
+export const newsId = () => Date.now().toString() + Math.random();
+
+// Models without schema support can return anything, so check the shape before trusting it
+export const parseGoal = (data: unknown): AIGoal | null => {
+  if (!isRecord(data) || typeof data.description !== 'string' || !isOneOf(GOAL_TARGET_TYPES, data.targetType)) return null;
+  if (typeof data.targetValue !== 'number' || typeof data.reward !== 'number') return null;
+  const buildingType = isOneOf(GOAL_BUILDING_TYPES, data.buildingType) ? data.buildingType : undefined;
+  if (data.targetType === 'building_count' && !buildingType) return null;
+  return {
+    description: data.description,
+    targetType: data.targetType,
+    targetValue: data.targetValue,
+    buildingType: data.targetType === 'building_count' ? buildingType : undefined,
+    reward: data.reward,
+    completed: false,
+  };
+};
+
+export const parseNews = (data: unknown): NewsItem | null => {
+  if (!isRecord(data) || typeof data.text !== 'string' || !data.text.trim()) return null;
+  return { id: newsId(), text: data.text.trim(), type: isOneOf(NEWS_TYPES, data.type) ? data.type : 'neutral' };
+};
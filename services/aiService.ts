@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AIGoal, AIProviderId, AISettings, CityStats, Grid, NewsItem } from "../types";
+import { createGeminiProvider } from "./geminiService";
+import { createOpenAICompatibleProvider } from "./openAICompatibleService";
+import { offlineProvider } from "./offlineAdvisorService";
+
+// Everything the game asks of an AI backend. Providers return null instead of
+// throwing so a flaky backend never interrupts play.
+export interface AIProvider {
+  generateCityGoal: (stats: CityStats, grid: Grid) => Promise<AIGoal | null>;
+  generateNewsEvent: (stats: CityStats, recentAction: string | null) => Promise<NewsItem | null>;
+}
+
+export const AI_PROVIDERS: { id: AIProviderId; name: string; description: string }[] = [
+  { id: 'gemini', name: 'Gemini', description: 'Google Gemini, using the GEMINI_API_KEY from .env.local.' },
+  { id: 'openai', name: 'OpenAI-compatible', description: 'Any /chat/completions endpoint, such as a local llama.cpp, Ollama or LM Studio server.' },
+  { id: 'offline', name: 'Offline', description: 'Built-in templates. No network; the same city always gets the same text.' },
+];
+
+const SETTINGS_KEY = 'poplu-city:ai-settings';
+
+// AI_PROVIDER in .env.local picks the default, e.g. "offline" for CI and demos
+const envProvider = AI_PROVIDERS.find(p => p.id === process.env.AI_PROVIDER)?.id;
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: envProvider ?? 'gemini',
+  gemini: { model: 'gemini-2.5-flash' },
+  openai: { baseUrl: 'http://localhost:11434/v1', model: 'llama3.2', apiKey: '' },
+};
+
+export const loadAISettings = (): AISettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? 'null');
+    if (!stored) return DEFAULT_AI_SETTINGS;
+    return {
+      provider: AI_PROVIDERS.some(p => p.id === stored.provider) ? stored.provider : DEFAULT_AI_SETTINGS.provider,
+      gemini: { ...DEFAULT_AI_SETTINGS.gemini, ...stored.gemini },
+      openai: { ...DEFAULT_AI_SETTINGS.openai, ...stored.openai },
+    };
+  } catch {
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+export const saveAISettings = (settings: AISettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Error saving AI settings:", error);
+  }
+};
+
+export const getAIProvider = (settings: AISettings): AIProvider => {
+  switch (settings.provider) {
+    case 'gemini':
+      return createGeminiProvider(settings.gemini);
+    case 'openai':
+      return createOpenAICompatibleProvider(settings.openai);
+    case 'offline':
+      return offlineProvider;
+  }
+};
@@ -1,15 +1,19 @@
-
 /**
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
 import { GoogleGenAI, Type } from "@google/genai";
-import { AIGoal, BuildingType, CityStats, Grid, NewsItem } from "../types";
-import { BUILDINGS } from "../constants";
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { AISettings } from "../types";
+import { AIProvider } from "./aiService";
+import { GOAL_BUILDING_TYPES, GOAL_PROMPT, GOAL_TARGET_TYPES, NEWS_PROMPT, NEWS_TYPES, goalContext, newsContext, parseGoal, parseNews } from "./aiPrompts";
 
-const modelId = 'gemini-2.5-flash';
+// Created on first use so that importing this module never needs a key
+let ai: GoogleGenAI | null = null;
+const getClient = () => {
+  // @google/genai-api-key-fix: The API key must be obtained exclusively from the environment variable `process.env.API_KEY`. Do not add checks for its existence.
+  if (!ai) ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return ai;
+};
 
 // --- Goal Generation ---
 
@@ -23,7 +27,7 @@ const goalSchema = {
     },
     targetType: {
       type: Type.STRING,
-      enum: ['population', 'money', 'building_count'],
+      enum: GOAL_TARGET_TYPES,
       description: "The metric to track.",
     },
     targetValue: {
@@ -32,7 +36,7 @@ const goalSchema = {
     },
     buildingType: {
       type: Type.STRING,
-      enum: [BuildingType.Residential, BuildingType.Commercial, BuildingType.Industrial, BuildingType.Park, BuildingType.Road, BuildingType.Land, BuildingType.Rail, BuildingType.TrainStation],
+      enum: GOAL_BUILDING_TYPES,
       description: "Required if targetType is building_count.",
     },
     reward: {
@@ -43,51 +47,6 @@ const goalSchema = {
   required: ['description', 'targetType', 'targetValue', 'reward'],
 };
 
-export const generateCityGoal = async (stats: CityStats, grid: Grid): Promise<AIGoal | null> => {
-  // @google/genai-api-key-fix: The API key must be obtained exclusively from the environment variable `process.env.API_KEY`. Do not add checks for its existence.
-
-  // Count buildings
-  const counts: Record<string, number> = {};
-  grid.flat().forEach(tile => {
-    counts[tile.buildingType] = (counts[tile.buildingType] || 0) + 1;
-  });
-
-  const context = `
-    Current City Stats:
-    Day: ${stats.day}
-    Money: $${stats.money}
-    Population: ${stats.population}
-    Buildings: ${JSON.stringify(counts)}
-    Building Costs/Stats: ${JSON.stringify(
-      Object.values(BUILDINGS).filter(b => b.type !== BuildingType.None).map(b => ({type: b.type, cost: b.cost, pop: b.popGen, income: b.incomeGen}))
-    )}
-  `;
-
-  const prompt = `You are the AI City Advisor for a simulation game. Based on the current city stats, generate a challenging but achievable short-term goal for the player to help the city grow. Return JSON.`;
-
-  try {
-    const response = await ai.models.generateContent({
-      model: modelId,
-      // @google/genai-generate-content-fix: For text-only prompts, `contents` should be a single string.
-      contents: `${context}\n${prompt}`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: goalSchema,
-        temperature: 0.7,
-      },
-    });
-
-    // @google/genai-response-text-fix: Access the `text` property directly from the response.
-    if (response.text) {
-      const goalData = JSON.parse(response.text) as Omit<AIGoal, 'completed'>;
-      return { ...goalData, completed: false };
-    }
-  } catch (error) {
-    console.error("Error generating goal:", error);
-  }
-  return null;
-};
-
 // --- News Feed Generation ---
 
 // @google/genai-schema-fix: The `Schema` type is not exported from @google/genai. Use a const object for the schema.
@@ -95,40 +54,51 @@ const newsSchema = {
   type: Type.OBJECT,
   properties: {
     text: { type: Type.STRING, description: "A one-sentence news headline representing life in the city." },
-    type: { type: Type.STRING, enum: ['positive', 'negative', 'neutral'] },
+    type: { type: Type.STRING, enum: NEWS_TYPES },
   },
   required: ['text', 'type'],
 };
 
-export const generateNewsEvent = async (stats: CityStats, recentAction: string | null): Promise<NewsItem | null> => {
-  // @google/genai-api-key-fix: The API key must be obtained exclusively from the environment variable `process.env.API_KEY`. Do not add checks for its existence.
-
-  const context = `City Stats - Pop: ${stats.population}, Money: ${stats.money}, Day: ${stats.day}. ${recentAction ? `Recent Action: ${recentAction}` : ''}`;
-  const prompt = "Generate a very short, isometric-sim-city style news headline based on the city state. Can be funny, cynical, or celebratory.";
-
-  try {
-    const response = await ai.models.generateContent({
-      model: modelId,
-      // @google/genai-generate-content-fix: For text-only prompts, `contents` should be a single string.
-      contents: `${context}\n${prompt}`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: newsSchema,
-        temperature: 1.1, // High temp for variety
-      },
-    });
+export const createGeminiProvider = ({ model }: AISettings['gemini']): AIProvider => ({
+  generateCityGoal: async (stats, grid) => {
+    try {
+      const response = await getClient().models.generateContent({
+        model,
+        // @google/genai-generate-content-fix: For text-only prompts, `contents` should be a single string.
+        contents: `${goalContext(stats, grid)}\n${GOAL_PROMPT}`,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: goalSchema,
+          temperature: 0.7,
+        },
+      });
+
+      // @google/genai-response-text-fix: Access the `text` property directly from the response.
+      if (response.text) return parseGoal(JSON.parse(response.text));
+    } catch (error) {
+      console.error("Error generating goal:", error);
+    }
+    return null;
+  },
 
-    // @google/genai-response-text-fix: Access the `text` property directly from the response.
-    if (response.text) {
-      const data = JSON.parse(response.text);
-      return {
-        id: Date.now().toString() + Math.random(),
-        text: data.text,
-        type: data.type,
-      };
+  generateNewsEvent: async (stats, recentAction) => {
+    try {
+      const response = await getClient().models.generateContent({
+        model,
+        // @google/genai-generate-content-fix: For text-only prompts, `contents` should be a single string.
+        contents: `${newsContext(stats, recentAction)}\n${NEWS_PROMPT}`,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: newsSchema,
+          temperature: 1.1, // High temp for variety
+        },
+      });
+
+      // @google/genai-response-text-fix: Access the `text` property directly from the response.
+      if (response.text) return parseNews(JSON.parse(response.text));
+    } catch (error) {
+      console.error("Error generating news:", error);
     }
-  } catch (error) {
-    console.error("Error generating news:", error);
-  }
-  return null;
-};
+    return null;
+  },
+});
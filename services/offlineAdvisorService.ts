@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AIGoal, BuildingType, CityStats, NewsItem } from "../types";
+import { BUILDINGS } from "../constants";
+import { createRng } from "../simulation/rng";
+import { AIProvider } from "./aiService";
+import { countBuildings, newsId } from "./aiPrompts";
+
+// Template-based stand-in for a language model. The same city state always
+// produces the same goal or headline, so offline runs are repeatable.
+
+const seedFrom = (stats: CityStats, salt: number) =>
+  (Math.imul(stats.day, 73856093) ^ Math.imul(stats.population, 19349663) ^ Math.imul(Math.round(stats.money), 83492791) ^ salt) >>> 0;
+
+// Rounds up to a friendly number: 37 -> 40, 412 -> 450, 1234 -> 1300
+const roundUp = (value: number) => {
+  const step = value < 100 ? 10 : value < 1000 ? 50 : 100;
+  return Math.max(step, Math.ceil(value / step) * step);
+};
+
+const fill = (template: string, values: Record<string, string | number>) =>
+  template.replace(/\{(\w+)\}/g, (_, key) => String(values[key] ?? ''));
+
+const POPULATION_GOALS = [
+  "The housing board wants {target} residents calling the city home.",
+  "Citizens dream of a bustling town of {target} people.",
+  "Grow the city to {target} residents to earn a regional grant.",
+];
+
+const MONEY_GOALS = [
+  "The council asks for ${target} in the treasury before the next budget session.",
+  "Investors will chip in once the city holds ${target}.",
+  "Build a rainy-day fund of ${target}.",
+];
+
+const BUILDING_GOALS = [
+  "Residents are asking for {target} {building} tiles across the city.",
+  "The planning office recommends having {target} {building} tiles.",
+  "A federal program rewards cities with {target} {building} tiles.",
+];
+
+// Which buildings the advisor suggests, roughly in the order a city needs them
+const BUILDING_CHOICES = [BuildingType.Residential, BuildingType.Road, BuildingType.Commercial, BuildingType.Park, BuildingType.Industrial, BuildingType.TrainStation];
+
+const generateGoal = (stats: CityStats, counts: Record<string, number>): AIGoal => {
+  const rng = createRng(seedFrom(stats, 0x60a1));
+  const targetType = rng.pick(['population', 'money', 'building_count'] as const);
+
+  if (targetType === 'population') {
+    const target = roundUp(stats.population * 1.5 + 50);
+    return { description: fill(rng.pick(POPULATION_GOALS), { target }), targetType, targetValue: target, reward: roundUp(target * 2), completed: false };
+  }
+  if (targetType === 'money') {
+    const target = roundUp(Math.max(stats.money, 0) * 1.2 + 1000);
+    return { description: fill(rng.pick(MONEY_GOALS), { target: target.toLocaleString() }), targetType, targetValue: target, reward: roundUp(target * 0.1), completed: false };
+  }
+
+  const buildingType = rng.pick(BUILDING_CHOICES);
+  const target = (counts[buildingType] ?? 0) + 2 + rng.int(4);
+  return {
+    description: fill(rng.pick(BUILDING_GOALS), { target, building: BUILDINGS[buildingType].name }),
+    targetType,
+    targetValue: target,
+    buildingType,
+    reward: roundUp(target * BUILDINGS[buildingType].cost * 0.5 + 100),
+    completed: false,
+  };
+};
+
+const HEADLINES: Record<NewsItem['type'], string[]> = {
+  positive: [
+    "Day {day}: {pop} residents agree the city has never looked better.",
+    "Local bakery reports record sales as population hits {pop}.",
+    "Council celebrates ${money} in the bank with a modest ribbon-cutting.",
+    "New arrivals praise the city's tidy streets and short commutes.",
+  ],
+  negative: [
+    "Noise complaints pile up at city hall for the third day running.",
+    "Residents grumble about potholes on day {day}.",
+    "Accountants spotted weeping outside city hall.",
+    "Pigeons stage a sit-in over the lack of parks.",
+  ],
+  neutral: [
+    "Day {day}: a quiet one, according to the city's only traffic cop.",
+    "Survey finds {pop} residents, most of them undecided about everything.",
+    "Mayor's cat declared honorary advisor; duties unclear.",
+    "Weather forecast: mild, with a chance of zoning debates.",
+  ],
+};
+
+const generateNews = (stats: CityStats, recentAction: string | null): NewsItem => {
+  const rng = createRng(seedFrom(stats, recentAction ? recentAction.length : 0x2e35));
+  // A struggling treasury makes bad news more likely
+  const roll = rng.next();
+  const type: NewsItem['type'] = stats.money < 0
+    ? (roll < 0.6 ? 'negative' : roll < 0.85 ? 'neutral' : 'positive')
+    : (roll < 0.45 ? 'positive' : roll < 0.75 ? 'neutral' : 'negative');
+  const text = fill(rng.pick(HEADLINES[type]), {
+    day: stats.day,
+    pop: stats.population.toLocaleString(),
+    money: stats.money.toLocaleString(),
+  });
+  return { id: newsId(), text, type };
+};
+
+export const offlineProvider: AIProvider = {
+  generateCityGoal: async (stats, grid) => generateGoal(stats, countBuildings(grid)),
+  generateNewsEvent: async (stats, recentAction) => generateNews(stats, recentAction),
+};
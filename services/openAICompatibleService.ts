@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AISettings } from "../types";
+import { AIProvider } from "./aiService";
+import { GOAL_BUILDING_TYPES, GOAL_PROMPT, NEWS_PROMPT, goalContext, newsContext, parseGoal, parseNews } from "./aiPrompts";
+
+// Works with any server exposing /chat/completions (llama.cpp, Ollama, LM Studio, vLLM, OpenAI itself)
+
+const GOAL_FORMAT = `Respond with only a JSON object: {"description": string, "targetType": "population" | "money" | "building_count", "targetValue": integer, "buildingType": one of ${JSON.stringify(GOAL_BUILDING_TYPES)} (only for building_count), "reward": integer}.`;
+const NEWS_FORMAT = `Respond with only a JSON object: {"text": string, "type": "positive" | "negative" | "neutral"}.`;
+
+// Local models often wrap JSON in prose or code fences
+const extractJson = (text: string): unknown => {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start >= 0 && end > start ? JSON.parse(text.slice(start, end + 1)) : null;
+};
+
+export const createOpenAICompatibleProvider = ({ baseUrl, model, apiKey }: AISettings['openai']): AIProvider => {
+  const complete = async (prompt: string, temperature: number) => {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model, temperature, messages: [{ role: 'user', content: prompt }] }),
+    });
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+    const data = await response.json();
+    return extractJson(data.choices?.[0]?.message?.content ?? '');
+  };
+
+  return {
+    generateCityGoal: async (stats, grid) => {
+      try {
+        return parseGoal(await complete(`${goalContext(stats, grid)}\n${GOAL_PROMPT}\n${GOAL_FORMAT}`, 0.7));
+      } catch (error) {
+        console.error("Error generating goal:", error);
+      }
+      return null;
+    },
+
+    generateNewsEvent: async (stats, recentAction) => {
+      try {
+        return parseNews(await complete(`${newsContext(stats, recentAction)}\n${NEWS_PROMPT}\n${NEWS_FORMAT}`, 1.1));
+      } catch (error) {
+        console.error("Error generating news:", error);
+      }
+      return null;
+    },
+  };
+};
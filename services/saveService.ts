@@ -0,0 +1,333 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BuildingType, CityStats, CivicMetric, DisasterFrequency, Grid, NewsItem, Scenario, SimState, TileData } from "../types";
+import { addHighway } from "../simulation/roads";
+import { EMPTY_DEMAND } from "../simulation/demand";
+import { DEFAULT_TAX_RATES, emptyBudgetReport } from "../simulation/budget";
+import { EMPTY_ADVISOR } from "../simulation/advisor";
+import { computeLandValue } from "../simulation/landValue";
+import { computePollution } from "../simulation/pollution";
+import { computeHappiness } from "../simulation/happiness";
+import { CIVIC_METRICS, computeCivic } from "../simulation/civic";
+import { DEFAULT_DISASTER_FREQUENCY, DISASTER_FREQUENCIES, MILESTONES, UNDO_DEPTH_OPTIONS, UNDO_HISTORY_DEPTH } from "../constants";
+import { statsToCsv } from "../simulation/statsHistory";
+import { parseScenario, restoreScenario } from "../simulation/scenarios";
+import { isRecord } from "../simulation/guards";
+
+// Bump and add a matching migration below whenever a field is renamed or moved, or
+// an added field needs a different value in old saves than in a new city.
+// Other added fields need no bump: validate() gives any save that lacks them the
+// value a new city starts with (no loans, no scenario, empty stats history, base
+// density levels), and recomputes missing map layers such as land value.
+export const SAVE_VERSION = 4;
+export const MAX_SAVE_SLOTS = 5;
+
+const STORAGE_PREFIX = 'poplu-city';
+const AUTOSAVE_KEY = `${STORAGE_PREFIX}:autosave`;
+const UNDO_DEPTH_KEY = `${STORAGE_PREFIX}:undo-depth`;
+const slotKey = (slot: number) => `${STORAGE_PREFIX}:slot:${slot}`;
+
+export interface SaveData {
+  version: number;
+  name: string;
+  savedAt: number;
+  sim: SimState;
+  newsFeed: NewsItem[];
+  timeOfDay: number;
+}
+
+export interface SaveSummary {
+  slot: number | 'autosave';
+  name: string;
+  savedAt: number;
+  day: number;
+  population: number;
+  money: number;
+}
+
+export interface CitySnapshot {
+  sim: SimState;
+  newsFeed: NewsItem[];
+  timeOfDay: number;
+}
+
+// --- Migrations ---
+// Each step upgrades a save from one version to the next. Until validate()
+// has checked them, fields read from the file stay `unknown`.
+
+type Loose = Record<string, unknown>;
+
+// Fields every version carries at the top level
+interface SaveMeta {
+  name?: unknown;
+  savedAt?: unknown;
+  newsFeed?: unknown;
+  timeOfDay?: unknown;
+}
+
+// v0: unversioned dumps of raw App state ({ grid, stats, newsFeed? })
+interface SaveV0 extends SaveMeta { version?: 0; grid?: unknown; stats?: unknown }
+interface SaveV1 extends SaveMeta { version: 1; grid: unknown; stats: unknown }
+// v2 onward: grid and stats live in the simulation state
+interface SaveV2 extends SaveMeta { version: 2; sim: unknown }
+interface SaveV3 extends SaveMeta { version: 3; sim: unknown }
+interface SaveV4 extends SaveMeta { version: 4; sim: unknown }
+
+const migrations = {
+  0: (data: SaveV0): SaveV1 => ({
+    version: 1,
+    name: data.name ?? 'Imported City',
+    savedAt: data.savedAt ?? Date.now(),
+    grid: data.grid,
+    stats: data.stats,
+    newsFeed: Array.isArray(data.newsFeed) ? data.newsFeed : [],
+    timeOfDay: typeof data.timeOfDay === 'number' ? data.timeOfDay : 0,
+  }),
+  // v1: grid and stats moved into the simulation state, which also carries the RNG seed
+  1: ({ grid, stats, ...rest }: SaveV1): SaveV2 => ({
+    ...rest,
+    version: 2,
+    sim: { seed: 1, rngState: 1, tick: 0, grid, stats },
+  }),
+  // v2: buildings now need a road to the highway, so older cities get one laid for them
+  2: (data: SaveV2): SaveV3 => {
+    const sim = isRecord(data.sim) ? data.sim : {};
+    return {
+      ...data,
+      version: 3,
+      sim: isValidGrid(sim.grid) ? { ...sim, grid: addHighway(normalizeGrid(sim.grid)) } : sim,
+    };
+  },
+  // v3: milestones lock tools a new city starts without. Cities saved before
+  // milestones existed keep every tool they had, so all are marked reached.
+  3: (data: SaveV3): SaveV4 => {
+    const sim = isRecord(data.sim) ? data.sim : {};
+    return {
+      ...data,
+      version: 4,
+      sim: Array.isArray(sim.milestones) ? sim : { ...sim, milestones: MILESTONES.map(m => m.id) },
+    };
+  },
+};
+
+const migrate = (raw: Loose): SaveV4 => {
+  const version = raw.version ?? 0;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new Error(`Save has an unknown version (${String(version)}).`);
+  }
+  if (version > SAVE_VERSION) {
+    throw new Error(`Save was created by a newer version (v${version}) of the game.`);
+  }
+
+  // The version check above tells which shape the file has; from there each step runs in turn
+  const v1 = version < 1 ? migrations[0](raw as SaveV0) : raw as unknown as SaveV1;
+  const v2 = version < 2 ? migrations[1](v1) : raw as unknown as SaveV2;
+  const v3 = version < 3 ? migrations[2](v2) : raw as unknown as SaveV3;
+  return version < 4 ? migrations[3](v3) : raw as unknown as SaveV4;
+};
+
+// --- Validation ---
+
+// Fills in fields that older or hand-edited saves may be missing
+const normalizeTile = (raw: unknown, x: number, y: number): TileData => {
+  const tile: Partial<TileData> = isRecord(raw) ? raw : {};
+  return {
+    ...tile,
+    x,
+    y,
+    buildingType: Object.values(BuildingType).includes(tile.buildingType as BuildingType) ? tile.buildingType as BuildingType : BuildingType.None,
+    owned: !!tile.owned,
+    isWater: !!tile.isWater,
+    isRail: !!tile.isRail,
+  };
+};
+
+const isValidGrid = (grid: unknown): grid is unknown[][] =>
+  Array.isArray(grid) && grid.length > 0 && grid.every(row => Array.isArray(row) && row.length === grid.length);
+
+const normalizeGrid = (grid: unknown[][]): Grid => grid.map((row, y) => row.map((tile, x) => normalizeTile(tile, x, y)));
+
+const isValidStats = (stats: unknown): stats is CityStats =>
+  isRecord(stats) && typeof stats.money === 'number' && typeof stats.population === 'number' && typeof stats.day === 'number';
+
+const numberOr = (value: unknown, fallback: number) => (typeof value === 'number' ? value : fallback);
+const listOr = <T>(value: unknown, fallback: T[] = []): T[] => (Array.isArray(value) ? value : fallback);
+// Nested reports are only checked for being objects; the simulation recomputes them as it runs
+const recordOr = <T>(value: unknown, fallback: T): T => (isRecord(value) ? value as T : fallback);
+
+const validate = (data: SaveV4): SaveData => {
+  const sim = isRecord(data.sim) ? data.sim : {};
+  if (!isValidGrid(sim.grid)) throw new Error('Save file has no valid map grid.');
+  if (!isValidStats(sim.stats)) throw new Error('Save file has no valid city stats.');
+
+  const grid = normalizeGrid(sim.grid);
+  const traffic = listOr<number>(sim.traffic);
+  const tileCount = grid.length * grid.length;
+  const hasLayer = (layer: unknown): layer is number[] => Array.isArray(layer) && layer.length === tileCount;
+  const savedPollution = isRecord(sim.pollution) ? sim.pollution : {};
+  const pollution = hasLayer(savedPollution.air) && hasLayer(savedPollution.noise)
+    ? { air: savedPollution.air, noise: savedPollution.noise }
+    : computePollution(grid, traffic);
+  const savedCivic = isRecord(sim.civic) ? sim.civic : {};
+  const civic = CIVIC_METRICS.every(metric => hasLayer(savedCivic[metric]))
+    ? savedCivic as Record<CivicMetric, number[]>
+    : computeCivic(grid, pollution);
+  return {
+    version: SAVE_VERSION,
+    name: typeof data.name === 'string' ? data.name : 'Imported City',
+    savedAt: numberOr(data.savedAt, Date.now()),
+    sim: {
+      seed: numberOr(sim.seed, 1),
+      rngState: numberOr(sim.rngState, 1),
+      tick: numberOr(sim.tick, 0),
+      grid,
+      stats: sim.stats,
+      demand: recordOr(sim.demand, EMPTY_DEMAND),
+      taxRates: { ...DEFAULT_TAX_RATES, ...recordOr(sim.taxRates, {}) },
+      budget: recordOr(sim.budget, { today: emptyBudgetReport(), lastDay: null }),
+      advisor: recordOr(sim.advisor, EMPTY_ADVISOR),
+      trains: listOr(sim.trains),
+      traffic,
+      landValue: hasLayer(sim.landValue) ? sim.landValue : computeLandValue(grid, traffic, civic),
+      pollution,
+      happiness: hasLayer(sim.happiness) ? sim.happiness : computeHappiness(grid, pollution),
+      civic,
+      events: listOr(sim.events),
+      disasters: typeof sim.disasters === 'string' && sim.disasters in DISASTER_FREQUENCIES ? sim.disasters as DisasterFrequency : DEFAULT_DISASTER_FREQUENCY,
+      statsHistory: listOr(sim.statsHistory),
+      loans: listOr(sim.loans),
+      daysInRed: numberOr(sim.daysInRed, 0),
+      bankrupt: !!sim.bankrupt,
+      scenario: restoreScenario(sim.scenario),
+      milestones: listOr(sim.milestones),
+    },
+    newsFeed: listOr<unknown>(data.newsFeed).filter((item): item is NewsItem => isRecord(item) && typeof item.text === 'string'),
+    timeOfDay: numberOr(data.timeOfDay, 0),
+  };
+};
+
+// --- Serialization ---
+
+export const createSave = (name: string, snapshot: CitySnapshot): SaveData => ({
+  version: SAVE_VERSION,
+  name,
+  savedAt: Date.now(),
+  ...snapshot,
+});
+
+export const parseSave = (text: string): SaveData => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Save file is not valid JSON.');
+  }
+  if (!isRecord(raw)) throw new Error('Save file is empty.');
+  return validate(migrate(raw));
+};
+
+export const serializeSave = (save: SaveData): string => JSON.stringify(save);
+
+const summarize = (slot: SaveSummary['slot'], save: SaveData): SaveSummary => ({
+  slot,
+  name: save.name,
+  savedAt: save.savedAt,
+  day: save.sim.stats.day,
+  population: save.sim.stats.population,
+  money: save.sim.stats.money,
+});
+
+// --- localStorage slots ---
+
+const readKey = (key: string): SaveData | null => {
+  try {
+    const text = localStorage.getItem(key);
+    return text ? parseSave(text) : null;
+  } catch (error) {
+    console.error(`Error reading save "${key}":`, error);
+    return null;
+  }
+};
+
+const writeKey = (key: string, save: SaveData): boolean => {
+  try {
+    localStorage.setItem(key, serializeSave(save));
+    return true;
+  } catch (error) {
+    console.error(`Error writing save "${key}":`, error);
+    return false;
+  }
+};
+
+export const loadAutosave = () => readKey(AUTOSAVE_KEY);
+export const writeAutosave = (name: string, snapshot: CitySnapshot) => writeKey(AUTOSAVE_KEY, createSave(name, snapshot));
+
+export const loadSlot = (slot: number) => readKey(slotKey(slot));
+export const writeSlot = (slot: number, name: string, snapshot: CitySnapshot) => writeKey(slotKey(slot), createSave(name, snapshot));
+export const deleteSlot = (slot: number) => localStorage.removeItem(slotKey(slot));
+
+export const listSaves = (): (SaveSummary | null)[] =>
+  Array.from({ length: MAX_SAVE_SLOTS }, (_, i) => {
+    const save = loadSlot(i + 1);
+    return save ? summarize(i + 1, save) : null;
+  });
+
+export const getAutosaveSummary = (): SaveSummary | null => {
+  const save = loadAutosave();
+  return save ? summarize('autosave', save) : null;
+};
+
+// Undo depth is a player preference, so it outlives any one city
+export const loadUndoDepth = (): number => {
+  try {
+    const depth = Number(localStorage.getItem(UNDO_DEPTH_KEY));
+    return UNDO_DEPTH_OPTIONS.includes(depth) ? depth : UNDO_HISTORY_DEPTH;
+  } catch {
+    return UNDO_HISTORY_DEPTH;
+  }
+};
+
+export const saveUndoDepth = (depth: number) => {
+  try {
+    localStorage.setItem(UNDO_DEPTH_KEY, String(depth));
+  } catch (error) {
+    console.error("Error saving undo depth:", error);
+  }
+};
+
+// --- File export/import ---
+
+const fileStem = (name: string, day: number) => `${name.replace(/[^a-z0-9-_]+/gi, '_').toLowerCase() || 'city'}-day${day}`;
+
+const download = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const exportSave = (save: SaveData) => {
+  download(new Blob([JSON.stringify(save, null, 2)], { type: 'application/json' }), `${fileStem(save.name, save.sim.stats.day)}.json`);
+};
+
+// Daily stats as CSV, for balancing spreadsheets
+export const exportStatsCsv = (name: string, sim: SimState) => {
+  download(new Blob([statsToCsv(sim.statsHistory)], { type: 'text/csv' }), `${fileStem(name, sim.stats.day)}-stats.csv`);
+};
+
+export const importSave = async (file: File): Promise<SaveData> => parseSave(await file.text());
+
+// Custom scenarios share the built-in format, see SCENARIOS in constants
+export const importScenario = async (file: File): Promise<Scenario> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch {
+    throw new Error('Scenario file is not valid JSON.');
+  }
+  return parseScenario(raw);
+};
@@ -0,0 +1,290 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ActionResult, BuildingType, DisasterFrequency, DragAction, GridPoint, SimAction, SimNotice, SimState, TileAction, TileData, Zone } from '../types';
+import { BUILDINGS, DEMOLISH_COST, LAND_COST, LAND_SELL } from '../constants';
+import { inBounds, setTile } from './state';
+import { buildRoadNetwork, hasRoadAccess } from './roads';
+import { clampTaxRate } from './budget';
+import { setGoal } from './advisor';
+import { landValueAt } from './landValue';
+import { MAX_LEVEL, canDensify, levelOf, upgradeCost } from './levels';
+import { getUtilities, missingUtilities } from './utilities';
+import { repayLoan, takeLoan } from './loans';
+import { scenarioEnded } from './scenarios';
+import { toolLock } from './milestones';
+
+const reject = (state: SimState, text: string, type: SimNotice['type'] = 'negative'): ActionResult => ({
+  state,
+  applied: false,
+  notices: [{ text, type }],
+});
+
+const accept = (state: SimState, tile: TileData, moneyDelta: number, notices: SimNotice[] = []): ActionResult => ({
+  state: {
+    ...state,
+    grid: setTile(state.grid, tile),
+    stats: { ...state.stats, money: state.stats.money + moneyDelta },
+  },
+  applied: true,
+  notices,
+});
+
+export const hasOwnedNeighbor = (state: SimState, x: number, y: number) => {
+  const { grid } = state;
+  return [[x-1, y], [x+1, y], [x, y-1], [x, y+1]].some(([nx, ny]) => inBounds(grid, nx, ny) && grid[ny][nx].owned);
+};
+
+// Land sells back at the same fraction of its current value as the base prices
+export const getSellPrice = (state: Pick<SimState, 'grid' | 'landValue'>, tile: TileData) => Math.floor(landValueAt(state, tile) * (LAND_SELL / LAND_COST));
+export const getBuyPrice = (state: Pick<SimState, 'grid' | 'landValue'>, tile: TileData) => landValueAt(state, tile);
+
+// Translates the selected toolbar tool into the action it performs on a tile
+export const actionForTool = (tool: BuildingType, tile: TileData): TileAction => {
+  const { x, y } = tile;
+  if (tool === BuildingType.Land) return tile.owned ? { type: 'sellLand', x, y } : { type: 'buyLand', x, y };
+  if (tool === BuildingType.None) return { type: 'bulldoze', x, y };
+  if (tool === BuildingType.Upgrade) return { type: 'upgrade', x, y };
+  return { type: 'build', x, y, building: tool };
+};
+
+// Only map edits go on the undo stack; budget, advisor and settings changes stay put
+const NOT_UNDOABLE: SimAction['type'][] = ['setTaxRate', 'setGoal', 'setDisasters', 'takeLoan', 'repayLoan'];
+
+export const isUndoable = (action: SimAction): action is TileAction | DragAction => !NOT_UNDOABLE.includes(action.type);
+
+// Short description used for undo/redo messages
+export const describeAction = (action: TileAction | DragAction) => {
+  switch (action.type) {
+    case 'drag':
+      return `${BUILDINGS[action.tool].name} drag`;
+    case 'build':
+      return `${BUILDINGS[action.building].name} placement`;
+    case 'bulldoze':
+      return 'demolition';
+    case 'buyLand':
+      return 'land purchase';
+    case 'sellLand':
+      return 'land sale';
+    case 'upgrade':
+      return 'upgrade';
+  }
+};
+
+const sellLand = (state: SimState, tile: TileData): ActionResult => {
+  if (tile.isWater) return reject(state, "Cannot purchase protected public waterways.", 'neutral');
+  if (!tile.owned) return reject(state, "You do not own this land.");
+  // Can only sell if empty
+  if (tile.buildingType !== BuildingType.None) return reject(state, "Must clear building before selling land.");
+
+  const sellPrice = getSellPrice(state, tile);
+  return accept(state, { ...tile, owned: false }, sellPrice, [{ text: `Land sold for $${sellPrice}.`, type: 'neutral' }]);
+};
+
+const buyLand = (state: SimState, tile: TileData): ActionResult => {
+  if (tile.isWater) return reject(state, "Cannot purchase protected public waterways.", 'neutral');
+  if (tile.owned) return reject(state, "You already own this land.", 'neutral');
+  if (tile.isHighway) return reject(state, "The highway is public land.", 'neutral');
+
+  const cost = getBuyPrice(state, tile);
+  // Must be adjacent to owned land
+  if (!hasOwnedNeighbor(state, tile.x, tile.y)) return reject(state, "Can only buy land adjacent to owned territory.", 'neutral');
+  if (state.stats.money < cost) return reject(state, `Insufficient funds. Plot costs $${cost}.`);
+
+  return accept(state, { ...tile, owned: true }, -cost, [{ text: `New territory acquired for $${cost}.`, type: 'positive' }]);
+};
+
+const bulldoze = (state: SimState, tile: TileData): ActionResult => {
+  if (!tile.owned) return reject(state, "You do not own this land.");
+  if (tile.buildingType === BuildingType.None) return { state, applied: false, notices: [] };
+  if (tile.isHighway) return reject(state, "The highway is maintained by the state.", 'neutral');
+  if (state.stats.money < DEMOLISH_COST) return reject(state, "Cannot afford demolition costs.");
+
+  return accept(state, { ...tile, buildingType: BuildingType.None, isRail: false, level: undefined, paidLevel: undefined }, -DEMOLISH_COST); // Clear rail too
+};
+
+const build = (state: SimState, tile: TileData, tool: BuildingType): ActionResult => {
+  // The inspector only looks
+  if (tool === BuildingType.Inspect) return { state, applied: false, notices: [] };
+  // Check ownership first
+  if (!tile.owned) return reject(state, "You do not own this land.");
+
+  // Check terrain obstacles
+  if (tile.isWater) {
+    // Bridges can be built on water
+    if (tool !== BuildingType.Rail && tool !== BuildingType.Bridge) return reject(state, "Cannot build on water. Build a bridge!");
+  } else if (tool === BuildingType.Bridge) {
+    // Cannot build bridges on land (optional restriction, but keeps it clean)
+    return reject(state, "Bridges must be built on water.");
+  }
+
+  const buildingConfig = BUILDINGS[tool];
+  const canPlace = tile.buildingType === BuildingType.None || (tool === BuildingType.Rail && tile.isWater) || (tool === BuildingType.Bridge && tile.isWater);
+  if (!canPlace) return { state, applied: false, notices: [] };
+  if (state.stats.money < buildingConfig.cost) return reject(state, `Treasury insufficient for ${buildingConfig.name}.`);
+
+  // Special case for Rail
+  const placed = tool === BuildingType.Rail
+    ? { ...tile, buildingType: BuildingType.Rail, isRail: true }
+    : { ...tile, buildingType: tool, level: undefined, paidLevel: undefined };
+
+  const notices: SimNotice[] = [];
+  if (buildingConfig.needsRoad && !hasRoadAccess(buildRoadNetwork(state.grid), state.grid, tile.x, tile.y)) {
+    notices.push({ text: `${buildingConfig.name} has no road link to the highway and won't produce yet.`, type: 'neutral' });
+  }
+  const placedGrid = setTile(state.grid, placed);
+  const missing = missingUtilities(getUtilities(placedGrid), placedGrid, placed);
+  if (missing.length > 0) {
+    notices.push({ text: `${buildingConfig.name} has no ${missing.join(' or ')} and won't produce yet.`, type: 'neutral' });
+  }
+  return accept(state, placed, -buildingConfig.cost, notices);
+};
+
+const upgrade = (state: SimState, tile: TileData): ActionResult => {
+  if (!tile.owned) return reject(state, "You do not own this land.");
+  if (!canDensify(tile)) return reject(state, "Only homes, shops and factories can be upgraded.", 'neutral');
+  const { name } = BUILDINGS[tile.buildingType];
+  if (levelOf(tile) >= MAX_LEVEL) return reject(state, `${name} is already at the highest density.`, 'neutral');
+
+  const cost = upgradeCost(tile);
+  if (state.stats.money < cost) return reject(state, `Treasury insufficient for ${name} upgrade. It costs $${cost}.`);
+  const level = levelOf(tile) + 1;
+  return accept(state, { ...tile, level, paidLevel: level }, -cost, [{ text: `${name} upgraded to density level ${level}.`, type: 'positive' }]);
+};
+
+const setTaxRate = (state: SimState, zone: Zone, rate: number): ActionResult => {
+  const clamped = clampTaxRate(rate);
+  if (state.taxRates[zone] === clamped) return { state, applied: false, notices: [] };
+  return { state: { ...state, taxRates: { ...state.taxRates, [zone]: clamped } }, applied: true, notices: [] };
+};
+
+const setDisasters = (state: SimState, frequency: DisasterFrequency): ActionResult => {
+  if (state.disasters === frequency) return { state, applied: false, notices: [] };
+  return { state: { ...state, disasters: frequency }, applied: true, notices: [] };
+};
+
+// Tools behind a milestone or a scenario lock; selling and bulldozing are always allowed
+const LOCKABLE_ACTIONS: Partial<Record<TileAction['type'], BuildingType>> = {
+  buyLand: BuildingType.Land,
+  upgrade: BuildingType.Upgrade,
+};
+
+const applyTileAction = (state: SimState, action: TileAction): ActionResult => {
+  if (!inBounds(state.grid, action.x, action.y)) return { state, applied: false, notices: [] };
+  const tool = action.type === 'build' ? action.building : LOCKABLE_ACTIONS[action.type];
+  const lock = tool && toolLock(state, tool);
+  if (tool && lock) return reject(state, `${BUILDINGS[tool].name} is locked. ${lock.reason}.`, 'neutral');
+  const tile = state.grid[action.y][action.x];
+
+  switch (action.type) {
+    case 'build':
+      return build(state, tile, action.building);
+    case 'bulldoze':
+      return bulldoze(state, tile);
+    case 'buyLand':
+      return buyLand(state, tile);
+    case 'sellLand':
+      return sellLand(state, tile);
+    case 'upgrade':
+      return upgrade(state, tile);
+  }
+};
+
+// Roads, rail, bridges, power lines and pipes follow the drag; everything else fills the dragged rectangle
+const PATH_TOOLS = [BuildingType.Road, BuildingType.Rail, BuildingType.Bridge, BuildingType.PowerLine, BuildingType.WaterPipe];
+const isPathTool = (tool: BuildingType) => PATH_TOOLS.includes(tool);
+
+// Tiles covered by a drag. Paths run along the start row, then turn down the end column.
+export const dragTiles = (tool: BuildingType, from: GridPoint, to: GridPoint): GridPoint[] => {
+  const range = (a: number, b: number) => Array.from({ length: Math.abs(b - a) + 1 }, (_, i) => a + i * Math.sign(b - a));
+  if (isPathTool(tool)) {
+    return [
+      ...range(from.x, to.x).map(x => ({ x, y: from.y })),
+      ...range(from.y, to.y).slice(1).map(y => ({ x: to.x, y })),
+    ];
+  }
+  return range(from.y, to.y).flatMap(y => range(from.x, to.x).map(x => ({ x, y })));
+};
+
+export interface DragPlan {
+  tiles: (GridPoint & { valid: boolean })[];
+  kind: TileAction['type'] | null; // What each tile does; null when the drag starts off the map
+  cost: number; // Net spend; negative when the drag sells land
+  result: ActionResult; // Outcome with the real treasury, before checking it can pay
+}
+
+// Runs every tile of a drag in order against an unlimited treasury, so one
+// tile's validity can depend on an earlier one (e.g. buying outward from owned land)
+export const planDrag = (state: SimState, action: DragAction): DragPlan => {
+  const { tool, from, to } = action;
+  const tiles: DragPlan['tiles'] = [];
+  if (!inBounds(state.grid, from.x, from.y) || !inBounds(state.grid, to.x, to.y)) {
+    return { tiles, kind: null, cost: 0, result: { state, applied: false, notices: [] } };
+  }
+
+  // The start tile decides between buying and selling for the land tool
+  const template = actionForTool(tool, state.grid[from.y][from.x]);
+  const unlimited = Number.MAX_SAFE_INTEGER / 2;
+  let current: SimState = { ...state, stats: { ...state.stats, money: unlimited } };
+  const notices: SimNotice[] = [];
+  let rejection: SimNotice | undefined;
+
+  dragTiles(tool, from, to).forEach(({ x, y }) => {
+    const step = applyTileAction(current, { ...template, x, y });
+    tiles.push({ x, y, valid: step.applied });
+    current = step.state;
+    if (!step.applied) {
+      rejection = rejection ?? step.notices[0];
+      return;
+    }
+    step.notices.forEach(notice => {
+      if (!notices.some(n => n.text === notice.text)) notices.push(notice);
+    });
+  });
+
+  const cost = unlimited - current.stats.money;
+  const applied = tiles.some(t => t.valid);
+  return {
+    tiles,
+    kind: template.type,
+    cost,
+    result: {
+      state: applied ? { ...current, stats: { ...current.stats, money: state.stats.money - cost } } : state,
+      applied,
+      notices: applied ? notices : rejection ? [rejection] : [],
+    },
+  };
+};
+
+const applyDrag = (state: SimState, action: DragAction): ActionResult => {
+  const { tiles, kind, cost, result } = planDrag(state, action);
+  if (!result.applied) return result;
+  if (cost > 0 && state.stats.money < cost) {
+    return reject(state, `Treasury can't cover this ${BUILDINGS[action.tool].name.toLowerCase()} drag: it costs $${cost} and you have $${state.stats.money}. Nothing was built.`);
+  }
+  // One receipt per plot would flood the feed, so land deals get a single summary
+  const plots = tiles.filter(t => t.valid).length;
+  if (kind === 'buyLand') return { ...result, notices: [{ text: `${plots} plots acquired for $${cost}.`, type: 'positive' }] };
+  if (kind === 'sellLand') return { ...result, notices: [{ text: `${plots} plots sold for $${-cost}.`, type: 'neutral' }] };
+  return result;
+};
+
+// Why the city takes no more player commands, or null while play goes on
+export const gameOverReason = (state: SimState) => {
+  if (state.bankrupt) return "The city is bankrupt. Start over or load a save.";
+  if (scenarioEnded(state)) return "The scenario is over. Retry it or pick another.";
+  return null;
+};
+
+export const applyAction = (state: SimState, action: SimAction): ActionResult => {
+  const over = gameOverReason(state);
+  if (over) return reject(state, over, 'neutral');
+  if (action.type === 'setTaxRate') return setTaxRate(state, action.zone, action.rate);
+  if (action.type === 'setGoal') return setGoal(state, action.goal);
+  if (action.type === 'setDisasters') return setDisasters(state, action.frequency);
+  if (action.type === 'takeLoan') return takeLoan(state, action.term, action.amount);
+  if (action.type === 'repayLoan') return repayLoan(state, action.id);
+  if (action.type === 'drag') return applyDrag(state, action);
+  return applyTileAction(state, action);
+};
@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AIGoal, ActionResult, AdvisorState, BuildingType, SimNotice, SimState } from '../types';
+import { BUILDINGS } from '../constants';
+
+export const EMPTY_ADVISOR: AdvisorState = { goal: null, completedGoals: [] };
+
+// Current value of the metric a goal tracks
+export const goalProgress = (state: SimState, goal: Pick<AIGoal, 'targetType' | 'buildingType'>) => {
+  switch (goal.targetType) {
+    case 'population':
+      return state.stats.population;
+    case 'money':
+      return state.stats.money;
+    case 'building_count': {
+      const tiles = state.grid.flat().filter(t => t.owned);
+      // "Land" goals count owned plots; rail counts track laid over water too
+      if (goal.buildingType === BuildingType.Land) return tiles.length;
+      if (goal.buildingType === BuildingType.Rail) return tiles.filter(t => t.isRail).length;
+      return tiles.filter(t => t.buildingType === goal.buildingType).length;
+    }
+  }
+};
+
+// Goals come from a language model, so anything it gets wrong is refused here
+export const setGoal = (state: SimState, goal: AIGoal): ActionResult => {
+  const validTarget = ['population', 'money', 'building_count'].includes(goal.targetType) && Number.isFinite(goal.targetValue);
+  const validBuilding = goal.targetType !== 'building_count' || (!!goal.buildingType && goal.buildingType in BUILDINGS);
+  if (!validTarget || !validBuilding) return { state, applied: false, notices: [] };
+
+  const accepted: AIGoal = {
+    ...goal,
+    targetValue: Math.round(goal.targetValue),
+    reward: Math.max(0, Math.round(goal.reward) || 0),
+    completed: false,
+  };
+  return {
+    state: { ...state, advisor: { ...state.advisor, goal: accepted } },
+    applied: true,
+    notices: [{ text: `New advisor goal: ${accepted.description}`, type: 'neutral' }],
+  };
+};
+
+// Pays out the active goal once its target is reached
+export const checkGoal = (state: SimState): { state: SimState; notices: SimNotice[] } => {
+  const { goal } = state.advisor;
+  if (!goal || goalProgress(state, goal) < goal.targetValue) return { state, notices: [] };
+
+  return {
+    state: {
+      ...state,
+      stats: { ...state.stats, money: state.stats.money + goal.reward },
+      advisor: {
+        goal: null,
+        completedGoals: [...state.advisor.completedGoals, { ...goal, completed: true, completedDay: state.stats.day }],
+      },
+    },
+    notices: [{ text: `Goal complete: ${goal.description} Reward: $${goal.reward}.`, type: 'positive' }],
+  };
+};
@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BudgetReport, Zone } from '../types';
+import { DEFAULT_TAX_RATE, MAX_TAX_RATE, TAX_GROWTH_SENSITIVITY } from '../constants';
+
+export const DEFAULT_TAX_RATES: Record<Zone, number> = {
+  residential: DEFAULT_TAX_RATE,
+  commercial: DEFAULT_TAX_RATE,
+  industrial: DEFAULT_TAX_RATE,
+};
+
+export const emptyBudgetReport = (): BudgetReport => ({ income: {}, expenses: {} });
+
+export const clampTaxRate = (rate: number) => Math.min(MAX_TAX_RATE, Math.max(0, Math.round(rate)));
+
+// Revenue relative to the default rate
+export const taxMultiplier = (rate: number) => rate / DEFAULT_TAX_RATE;
+
+// How eager people and businesses are to grow under a given rate: 1 at the default,
+// less above it, more below it
+export const taxGrowthFactor = (rate: number) => Math.min(1.5, Math.max(0, 1 - (rate - DEFAULT_TAX_RATE) * TAX_GROWTH_SENSITIVITY));
+
+const sumValues = (record: Partial<Record<string, number>>) =>
+  Object.values(record).reduce<number>((sum, v) => sum + (v ?? 0), 0);
+
+export const totalIncome = (report: BudgetReport) => sumValues(report.income);
+export const totalExpenses = (report: BudgetReport) => sumValues(report.expenses);
+
+// Adds one tick's figures onto a running report
+export const addToReport = (report: BudgetReport, tickReport: BudgetReport): BudgetReport => {
+  const merge = <K extends string>(a: Partial<Record<K, number>>, b: Partial<Record<K, number>>) => {
+    const out: Partial<Record<K, number>> = { ...a };
+    (Object.keys(b) as K[]).forEach(key => { out[key] = (out[key] ?? 0) + (b[key] ?? 0); });
+    return out;
+  };
+  return { income: merge(report.income, tickReport.income), expenses: merge(report.expenses, tickReport.expenses) };
+};
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { COMMUTE_WALK_SPEED, EVENING_COMMUTE, MORNING_COMMUTE } from '../constants';
+import { Rng } from './rng';
+import { TripRoute } from './traffic';
+
+// A resident shown walking between home and a job or shop. Only the renderer
+// uses these; where one is at any moment follows from the time of day alone.
+export interface Commuter {
+  id: number;
+  home: number; // Tile index
+  destination: number; // Tile index
+  walk: number[]; // Home, the road route, then the destination
+  departure: number; // Time of day the morning walk starts
+  returnTime: number; // Time of day the evening walk starts
+}
+
+const walkFor = (route: TripRoute) => [route.home, ...route.path, route.destination];
+
+// Keeps existing commuters whose trip still exists, then trims or tops up the
+// pool to `count`, so a population change only adds or removes a few people
+export const syncCommuters = (pool: Commuter[], routes: TripRoute[], count: number, rng: Rng): Commuter[] => {
+  if (routes.length === 0) return [];
+  const byTrip = new Map(routes.map(route => [`${route.home}>${route.destination}`, route]));
+
+  const kept: Commuter[] = [];
+  pool.forEach(commuter => {
+    const route = byTrip.get(`${commuter.home}>${commuter.destination}`);
+    if (route && kept.length < count) kept.push({ ...commuter, walk: walkFor(route) });
+  });
+
+  let nextId = pool.reduce((max, c) => Math.max(max, c.id), 0) + 1;
+  const totalShare = routes.reduce((sum, r) => sum + r.share, 0);
+  while (kept.length < count) {
+    // Homes with fewer destinations send more people down each route
+    let roll = rng.next() * totalShare;
+    const route = routes.find(r => (roll -= r.share) < 0) ?? routes[routes.length - 1];
+    kept.push({
+      id: nextId++,
+      home: route.home,
+      destination: route.destination,
+      walk: walkFor(route),
+      departure: rng.range(MORNING_COMMUTE[0], MORNING_COMMUTE[1]),
+      returnTime: rng.range(EVENING_COMMUTE[0], EVENING_COMMUTE[1]),
+    });
+  }
+  return kept;
+};
+
+// Tiles walked along `walk` at this time of day, or null while indoors
+export const commuterProgress = (commuter: Commuter, timeOfDay: number): number | null => {
+  const length = commuter.walk.length - 1;
+  const outbound = (timeOfDay - commuter.departure) * COMMUTE_WALK_SPEED;
+  const inbound = (timeOfDay - commuter.returnTime) * COMMUTE_WALK_SPEED;
+  if (inbound > 0) return inbound < length ? length - inbound : null;
+  if (outbound > 0) return outbound < length ? outbound : null;
+  return null;
+};
@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { CivicMetric, Grid, SimState } from '../types';
+import { BUILDINGS, CIVIC_EFFECTS, CRIME_PER_LEVEL, FIRE_RISK_PER_LEVEL } from '../constants';
+import { getServiceCoverage } from './services';
+import { levelOf } from './levels';
+
+export const CIVIC_METRICS = Object.keys(CIVIC_EFFECTS) as CivicMetric[];
+
+const toLevel = (value: number) => Math.round(Math.min(1, Math.max(0, value)) * 100) / 100;
+
+// Crime, fire risk, health and education on every tile. Crime only touches zoned
+// buildings; fire risk also touches anything with a fire hazard.
+export const computeCivic = (grid: Grid, pollution: SimState['pollution']): SimState['civic'] => {
+  const coverage = getServiceCoverage(grid);
+  const civic: SimState['civic'] = { crime: [], fireRisk: [], health: [], education: [] };
+
+  grid.flat().forEach((tile, index) => {
+    const config = tile.owned ? BUILDINGS[tile.buildingType] : undefined;
+    const level = levelOf(tile);
+    civic.crime.push(config?.zone ? toLevel(CRIME_PER_LEVEL * level * (1 - coverage.police[index])) : 0);
+    civic.fireRisk.push(config?.zone || config?.fireHazard
+      ? toLevel(FIRE_RISK_PER_LEVEL * level * (config.fireHazard ?? 1) * (1 - coverage.fire[index]))
+      : 0);
+    // Dirty air undoes some of what a clinic does
+    civic.health.push(toLevel(coverage.health[index] * (1 - (pollution.air[index] ?? 0))));
+    civic.education.push(toLevel(coverage.education[index]));
+  });
+  return civic;
+};
+
+// Scale on home growth or land value from a tile's civic conditions
+export const civicMultiplier = (civic: SimState['civic'], index: number, effect: 'growth' | 'landValue') =>
+  Math.max(0, 1 + CIVIC_METRICS.reduce((sum, metric) => sum + CIVIC_EFFECTS[metric][effect] * (civic[metric][index] ?? 0), 0));
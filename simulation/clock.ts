@@ -0,0 +1,25 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GameSpeed } from '../types';
+import { DAY_NIGHT_TICKS, MAX_CLOCK_STEP_MS, TICK_RATE_MS } from '../constants';
+
+export interface ClockStep {
+  pendingMs: number; // Game time carried toward the next tick
+  ticks: number; // Simulation ticks due this step
+  dayFraction: number; // How far timeOfDay moves this step
+}
+
+// One clock for both the economy and the day/night cycle: real time since the last
+// step is capped, scaled by the game speed, then split into whole ticks.
+export const advanceClock = (pendingMs: number, elapsedMs: number, speed: GameSpeed): ClockStep => {
+  const gameMs = Math.min(Math.max(0, elapsedMs), MAX_CLOCK_STEP_MS) * speed;
+  const total = pendingMs + gameMs;
+  const ticks = Math.floor(total / TICK_RATE_MS);
+  return {
+    pendingMs: total - ticks * TICK_RATE_MS,
+    ticks,
+    dayFraction: gameMs / (TICK_RATE_MS * DAY_NIGHT_TICKS),
+  };
+};
@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Zone, ZoneDemand } from '../types';
+import {
+  BASE_RESIDENTIAL_DEMAND,
+  COMMERCIAL_JOBS_PER_RESIDENT,
+  INDUSTRIAL_JOBS_PER_COMMERCIAL_JOB,
+  INDUSTRIAL_JOBS_PER_RESIDENT,
+  MIN_RESIDENTIAL_GROWTH,
+  WORKFORCE_RATIO,
+} from '../constants';
+import { taxGrowthFactor } from './budget';
+
+// What the city's producing buildings offer
+export interface ZoneSupply {
+  housing: number;
+  commercialJobs: number;
+  industrialJobs: number;
+}
+
+export interface DemandReport {
+  demand: ZoneDemand; // Shown in the UI
+  yields: ZoneDemand; // 0..1 output multiplier for each zone
+}
+
+export const EMPTY_DEMAND: ZoneDemand = { residential: 0, commercial: 0, industrial: 0 };
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// -1 when twice as much is built as wanted (or more), +1 when nothing is built but some is wanted
+const demandFor = (wanted: number, existing: number) => clamp((wanted - existing) / Math.max(wanted, existing, 1), -1, 1);
+
+// Share of a zone's capacity that is actually used
+const utilization = (wanted: number, existing: number) => (existing > 0 ? Math.min(1, wanted / existing) : 1);
+
+// Residents want jobs and shops; jobs attract residents. Building more of a
+// zone than the rest of the city can use lowers that zone's yield. High
+// business taxes shrink how many jobs firms want to offer.
+export const computeDemand = (supply: ZoneSupply, population: number, taxRates: Record<Zone, number>): DemandReport => {
+  const totalJobs = supply.commercialJobs + supply.industrialJobs;
+
+  const wantedHousing = totalJobs / WORKFORCE_RATIO + BASE_RESIDENTIAL_DEMAND;
+  const wantedCommercial = population * COMMERCIAL_JOBS_PER_RESIDENT * taxGrowthFactor(taxRates.commercial);
+  const wantedIndustrial = (population * INDUSTRIAL_JOBS_PER_RESIDENT + supply.commercialJobs * INDUSTRIAL_JOBS_PER_COMMERCIAL_JOB)
+    * taxGrowthFactor(taxRates.industrial);
+
+  return {
+    demand: {
+      residential: demandFor(wantedHousing, supply.housing),
+      commercial: demandFor(wantedCommercial, supply.commercialJobs),
+      industrial: demandFor(wantedIndustrial, supply.industrialJobs),
+    },
+    yields: {
+      // Homes still fill slowly without local jobs, just not at full speed
+      residential: MIN_RESIDENTIAL_GROWTH + (1 - MIN_RESIDENTIAL_GROWTH) * utilization(wantedHousing, supply.housing),
+      commercial: utilization(wantedCommercial, supply.commercialJobs),
+      industrial: utilization(wantedIndustrial, supply.industrialJobs),
+    },
+  };
+};
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Grid, SimNotice, SimState, TileData, ZoneDemand } from '../types';
+import {
+  BUILDINGS,
+  DENSITY_CHANGE_CHANCE,
+  DENSITY_DECLINE_DEMAND,
+  DENSITY_DECLINE_MARGIN,
+  DENSITY_GROWTH_DEMAND,
+  DENSITY_LEVELS,
+} from '../constants';
+import { Rng } from './rng';
+import { tileIndex } from './graph';
+import { landValueMultiplier } from './landValue';
+import { averageCoverage, getServiceCoverage } from './services';
+import { canDensify, levelOf } from './levels';
+
+interface DensityContext {
+  state: Pick<SimState, 'grid' | 'landValue'>;
+  demand: ZoneDemand;
+  producing: Set<number>; // Tile indices of buildings with road access
+}
+
+// +1 to grow, -1 to shrink, 0 to stay. Shrinking uses a margin under the
+// current level's thresholds so buildings don't flicker between levels, and
+// never takes a building below the level the player paid for.
+const levelChange = ({ state, demand, producing }: DensityContext, tile: TileData): number => {
+  const level = levelOf(tile);
+  const zone = BUILDINGS[tile.buildingType].zone;
+  const index = tileIndex(tile.x, tile.y, state.grid.length);
+  const zoneDemand = zone ? demand[zone] : 0;
+  const landValue = landValueMultiplier(state, tile);
+  const coverage = averageCoverage(getServiceCoverage(state.grid), index);
+
+  if (level > (tile.paidLevel ?? 1)) {
+    const current = DENSITY_LEVELS[level - 1];
+    if (!producing.has(index) || zoneDemand < DENSITY_DECLINE_DEMAND
+      || landValue < current.landValue - DENSITY_DECLINE_MARGIN || coverage < current.coverage - DENSITY_DECLINE_MARGIN) return -1;
+  }
+  const next = DENSITY_LEVELS[level];
+  if (next && producing.has(index) && zoneDemand >= DENSITY_GROWTH_DEMAND && landValue >= next.landValue && coverage >= next.coverage) return 1;
+  return 0;
+};
+
+// Daily density pass: each building whose conditions call for a change has a
+// chance to grow or shrink one level, so a neighbourhood changes gradually
+export const updateDensity = (context: DensityContext, rng: Rng): { grid: Grid; notices: SimNotice[] } => {
+  const { grid } = context.state;
+  let grown = 0;
+  let shrunk = 0;
+  const newGrid = grid.map(row => row.map(tile => {
+    if (!canDensify(tile)) return tile;
+    const change = levelChange(context, tile);
+    if (change === 0 || rng.next() >= DENSITY_CHANGE_CHANCE) return tile;
+    if (change > 0) grown++; else shrunk++;
+    return { ...tile, level: levelOf(tile) + change };
+  }));
+
+  const notices: SimNotice[] = [];
+  if (grown > 0) notices.push({ text: `${grown} building${grown === 1 ? '' : 's'} grew denser.`, type: 'positive' });
+  if (shrunk > 0) notices.push({ text: `${shrunk} building${shrunk === 1 ? '' : 's'} lost density as conditions worsened.`, type: 'negative' });
+  return { grid: grown + shrunk > 0 ? newGrid : grid, notices };
+};
@@ -0,0 +1,158 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BuildingType, CityEvent, CityEventKind, Grid, SimNotice, SimState, TileData } from '../types';
+import {
+  ACCIDENT_CLEANUP_COST,
+  BOOM_CHANCE,
+  BOOM_INCOME_MULTIPLIER,
+  BUILDINGS,
+  DISASTER_FREQUENCIES,
+  EVENT_DAYS,
+  FIRE_SPREAD,
+  FLOOD_RADIUS,
+  TICKS_PER_DAY,
+} from '../constants';
+import { Rng } from './rng';
+import { forEachInRadius, forEachNeighbor, tileCoords, tileIndex } from './graph';
+
+interface EventContext {
+  state: Pick<SimState, 'grid' | 'civic' | 'events' | 'disasters'>;
+  producing: Set<number>; // Tile indices of buildings producing this tick
+  tick: number;
+}
+
+interface EventOutcome {
+  grid: Grid;
+  events: CityEvent[];
+  cost: number;
+  notices: SimNotice[];
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const hasBuilding = (tile: TileData) =>
+  tile.owned && !tile.isWater && tile.buildingType !== BuildingType.None && tile.buildingType !== BuildingType.Land;
+
+const nextToWater = (grid: Grid, tile: TileData) => {
+  let wet = false;
+  forEachNeighbor(grid, tile.x, tile.y, n => { if (n.isWater) wet = true; });
+  return wet;
+};
+
+const startEvent = (kind: CityEventKind, tiles: number[], tick: number): CityEvent => ({
+  kind,
+  tiles,
+  endsAt: tick + EVENT_DAYS[kind] * TICKS_PER_DAY,
+});
+
+// Buildings along a stretch of riverbank stop working until the water drains
+const flood = ({ state, tick }: EventContext, rng: Rng): EventOutcome | null => {
+  const { grid } = state;
+  const size = grid.length;
+  const banks = grid.flat().filter(tile => hasBuilding(tile) && nextToWater(grid, tile));
+  if (banks.length === 0) return null;
+
+  const origin = rng.pick(banks);
+  const flooded = [origin];
+  forEachInRadius(grid, origin.x, origin.y, FLOOD_RADIUS, tile => { if (!tile.isWater && nextToWater(grid, tile)) flooded.push(tile); });
+  const buildings = flooded.filter(hasBuilding).length;
+  return {
+    grid,
+    events: [startEvent('flood', flooded.map(t => tileIndex(t.x, t.y, size)), tick)],
+    cost: 0,
+    notices: [{ text: `The river burst its banks near (${origin.x}, ${origin.y}). ${plural(buildings, 'building')} flooded for ${EVENT_DAYS.flood} days.`, type: 'negative' }],
+  };
+};
+
+// Starts where fire risk is highest, so poorly covered blocks burn most often,
+// then jumps to risky neighbours. Burned buildings are lost.
+const fire = ({ state, tick }: EventContext, rng: Rng): EventOutcome | null => {
+  const { grid, civic } = state;
+  const size = grid.length;
+  const total = civic.fireRisk.reduce((sum, risk) => sum + risk, 0);
+  if (total <= 0) return null;
+
+  let roll = rng.next() * total;
+  const origin = civic.fireRisk.findIndex(risk => (roll -= risk) < 0);
+  if (origin < 0) return null;
+  const burned = new Set([origin]);
+  const { x, y } = tileCoords(origin, size);
+  forEachNeighbor(grid, x, y, n => {
+    const index = tileIndex(n.x, n.y, size);
+    if (rng.next() < civic.fireRisk[index] * FIRE_SPREAD) burned.add(index);
+  });
+
+  const newGrid = grid.map(row => row.map(tile =>
+    burned.has(tileIndex(tile.x, tile.y, size)) ? { ...tile, buildingType: BuildingType.None, level: undefined, paidLevel: undefined } : tile));
+  return {
+    grid: newGrid,
+    events: [startEvent('fire', [...burned], tick)],
+    cost: 0,
+    notices: [{ text: `Fire destroyed ${plural(burned.size, 'building')} near (${x}, ${y}). Better fire coverage would have contained it.`, type: 'negative' }],
+  };
+};
+
+// A working factory shuts down for cleanup, and the city pays for it
+const accident = ({ state, producing, tick }: EventContext, rng: Rng): EventOutcome | null => {
+  const { grid } = state;
+  const size = grid.length;
+  const factories = grid.flat().filter(tile =>
+    tile.buildingType === BuildingType.Industrial && producing.has(tileIndex(tile.x, tile.y, size)));
+  if (factories.length === 0) return null;
+
+  const site = rng.pick(factories);
+  return {
+    grid,
+    events: [startEvent('accident', [tileIndex(site.x, site.y, size)], tick)],
+    cost: ACCIDENT_CLEANUP_COST,
+    notices: [{ text: `Industrial accident at (${site.x}, ${site.y}). The factory is closed for ${EVENT_DAYS.accident} days and cleanup cost $${ACCIDENT_CLEANUP_COST}.`, type: 'negative' }],
+  };
+};
+
+const boom = ({ state, tick }: EventContext): EventOutcome | null => {
+  const { grid } = state;
+  const size = grid.length;
+  const businesses = grid.flat().filter(tile => {
+    const zone = BUILDINGS[tile.buildingType].zone;
+    return tile.owned && (zone === 'commercial' || zone === 'industrial');
+  });
+  if (businesses.length === 0) return null;
+
+  return {
+    grid,
+    events: [startEvent('boom', businesses.map(t => tileIndex(t.x, t.y, size)), tick)],
+    cost: 0,
+    notices: [{ text: `Economic boom! Shops and factories earn ${Math.round((BOOM_INCOME_MULTIPLIER - 1) * 100)}% more for ${EVENT_DAYS.boom} days.`, type: 'positive' }],
+  };
+};
+
+const DISASTERS = { flood, fire, accident };
+
+// Daily roll. At most one disaster, picked at random (a city with nothing on the
+// riverbank simply escapes a flood), and at most one boom running at a time.
+export const rollEvents = (context: EventContext, rng: Rng): EventOutcome => {
+  const { state } = context;
+  let outcome: EventOutcome = { grid: state.grid, events: [], cost: 0, notices: [] };
+
+  if (rng.next() < DISASTER_FREQUENCIES[state.disasters].chance) {
+    const kind = rng.pick(Object.keys(DISASTERS) as (keyof typeof DISASTERS)[]);
+    outcome = DISASTERS[kind](context, rng) ?? outcome;
+  }
+
+  if (!state.events.some(event => event.kind === 'boom') && rng.next() < BOOM_CHANCE) {
+    const boomed = boom({ ...context, state: { ...state, grid: outcome.grid } });
+    if (boomed) {
+      outcome = { ...outcome, events: [...outcome.events, ...boomed.events], notices: [...outcome.notices, ...boomed.notices] };
+    }
+  }
+  return outcome;
+};
+
+// Tiles whose buildings can't produce while an event lasts
+export const disruptedTiles = (events: CityEvent[]) =>
+  new Set(events.filter(event => event.kind === 'flood' || event.kind === 'accident').flatMap(event => event.tiles));
+
+export const eventIncomeMultiplier = (events: CityEvent[]) =>
+  events.some(event => event.kind === 'boom') ? BOOM_INCOME_MULTIPLIER : 1;
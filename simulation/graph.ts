@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Grid, TileData } from '../types';
+
+// Graphs over grid tiles. Nodes are tile indices (y * size + x) and edges
+// join 4-neighbours that both satisfy the graph's predicate.
+export interface TileGraph {
+  size: number;
+  nodes: number[];
+  neighbors: Map<number, number[]>;
+}
+
+export const tileIndex = (x: number, y: number, size: number) => y * size + x;
+export const tileCoords = (index: number, size: number) => ({ x: index % size, y: Math.floor(index / size) });
+
+export const NEIGHBOR_OFFSETS: [number, number][] = [[0, -1], [0, 1], [-1, 0], [1, 0]];
+
+export const forEachNeighbor = (grid: Grid, x: number, y: number, fn: (tile: TileData) => void) => {
+  NEIGHBOR_OFFSETS.forEach(([dx, dy]) => {
+    const tile = grid[y + dy]?.[x + dx];
+    if (tile) fn(tile);
+  });
+};
+
+// Visits every tile within `radius` steps (Manhattan distance) of (x, y), excluding it.
+// `falloff` drops linearly from near 1 next door to near 0 at the edge.
+export const forEachInRadius = (grid: Grid, x: number, y: number, radius: number, fn: (tile: TileData, falloff: number) => void) => {
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      const distance = Math.abs(dx) + Math.abs(dy);
+      const tile = grid[y + dy]?.[x + dx];
+      if (tile && distance > 0 && distance <= radius) fn(tile, 1 - distance / (radius + 1));
+    }
+  }
+};
+
+export const buildTileGraph = (grid: Grid, isNode: (tile: TileData) => boolean): TileGraph => {
+  const size = grid.length;
+  const nodes: number[] = [];
+  const neighbors = new Map<number, number[]>();
+
+  grid.forEach(row => row.forEach(tile => {
+    if (!isNode(tile)) return;
+    const index = tileIndex(tile.x, tile.y, size);
+    const links: number[] = [];
+    forEachNeighbor(grid, tile.x, tile.y, n => { if (isNode(n)) links.push(tileIndex(n.x, n.y, size)); });
+    nodes.push(index);
+    neighbors.set(index, links);
+  }));
+
+  return { size, nodes, neighbors };
+};
+
+// Breadth-first flood from the given source nodes. Returns every reachable node.
+export const floodFrom = (graph: TileGraph, sources: number[]): Set<number> => {
+  const reached = new Set<number>(sources.filter(s => graph.neighbors.has(s)));
+  const queue = [...reached];
+  for (let i = 0; i < queue.length; i++) {
+    graph.neighbors.get(queue[i])!.forEach(next => {
+      if (!reached.has(next)) {
+        reached.add(next);
+        queue.push(next);
+      }
+    });
+  }
+  return reached;
+};
+
+// Shortest path by node count, including both ends. Null when `to` can't be reached.
+export const findPath = (graph: TileGraph, from: number, to: number): number[] | null => {
+  if (!graph.neighbors.has(from) || !graph.neighbors.has(to)) return null;
+  const parent = new Map<number, number>([[from, from]]);
+  const queue = [from];
+  for (let i = 0; i < queue.length && !parent.has(to); i++) {
+    graph.neighbors.get(queue[i])!.forEach(next => {
+      if (!parent.has(next)) {
+        parent.set(next, queue[i]);
+        queue.push(next);
+      }
+    });
+  }
+  if (!parent.has(to)) return null;
+
+  const path = [to];
+  while (path[0] !== from) path.unshift(parent.get(path[0])!);
+  return path;
+};
+
+// A* with a Manhattan-distance heuristic. Entering a node costs `stepCost(node)`, which must be
+// at least 1 for the heuristic to hold; with the default every step costs 1 and the result matches
+// findPath while exploring far fewer tiles.
+export const findPathAStar = (graph: TileGraph, from: number, to: number, stepCost: (node: number) => number = () => 1): number[] | null => {
+  if (!graph.neighbors.has(from) || !graph.neighbors.has(to)) return null;
+  const { size } = graph;
+  const goal = tileCoords(to, size);
+  const heuristic = (node: number) => {
+    const { x, y } = tileCoords(node, size);
+    return Math.abs(x - goal.x) + Math.abs(y - goal.y);
+  };
+
+  const parent = new Map<number, number>([[from, from]]);
+  const cost = new Map<number, number>([[from, 0]]);
+  const open: { node: number; score: number }[] = [{ node: from, score: heuristic(from) }];
+
+  while (open.length > 0) {
+    // Open lists stay small on city-sized maps, so a linear scan beats a heap here
+    let best = 0;
+    for (let i = 1; i < open.length; i++) if (open[i].score < open[best].score) best = i;
+    const { node } = open.splice(best, 1)[0];
+    if (node === to) break;
+
+    graph.neighbors.get(node)!.forEach(next => {
+      const nextCost = cost.get(node)! + stepCost(next);
+      if (nextCost >= (cost.get(next) ?? Infinity)) return;
+      cost.set(next, nextCost);
+      parent.set(next, node);
+      open.push({ node: next, score: nextCost + heuristic(next) });
+    });
+  }
+  if (!parent.has(to)) return null;
+
+  const path = [to];
+  while (path[0] !== from) path.unshift(parent.get(path[0])!);
+  return path;
+};
@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Grid, SimState, TileData } from '../types';
+import {
+  AIR_POLLUTION_UNHAPPINESS,
+  BASE_HAPPINESS,
+  HAPPINESS_GROWTH_WEIGHT,
+  NOISE_POLLUTION_UNHAPPINESS,
+  SERVICE_HAPPINESS,
+} from '../constants';
+import { tileIndex } from './graph';
+import { SERVICE_KINDS, getServiceCoverage } from './services';
+
+// Happiness on every tile: pollution drags it down, parks and other services lift it
+export const computeHappiness = (grid: Grid, pollution: SimState['pollution']): number[] => {
+  const coverage = getServiceCoverage(grid);
+  return grid.flat().map((_, index) => {
+    let happiness = BASE_HAPPINESS
+      - AIR_POLLUTION_UNHAPPINESS * (pollution.air[index] ?? 0)
+      - NOISE_POLLUTION_UNHAPPINESS * (pollution.noise[index] ?? 0);
+    SERVICE_KINDS.forEach(kind => { happiness += SERVICE_HAPPINESS[kind] * coverage[kind][index]; });
+    return Math.round(Math.min(1, Math.max(0, happiness)) * 100) / 100;
+  });
+};
+
+// Growth scale for homes: people move to pleasant places and away from miserable ones
+export const happinessGrowth = (state: Pick<SimState, 'grid' | 'happiness'>, tile: TileData) =>
+  1 + ((state.happiness[tileIndex(tile.x, tile.y, state.grid.length)] ?? BASE_HAPPINESS) - BASE_HAPPINESS) * HAPPINESS_GROWTH_WEIGHT;
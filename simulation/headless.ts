@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { SimAction, SimState } from '../types';
+import { TICKS_PER_DAY } from '../constants';
+import { Rng } from './rng';
+import { applyAction } from './actions';
+import { stopReason, tick } from './tick';
+
+export interface PlannedAction {
+  day: number;
+  action: SimAction;
+}
+
+export interface PlanResult {
+  state: SimState;
+  rejected: number; // Planned actions the city refused
+  stoppedBy: string | null; // Set when bankruptcy or a scenario result ended the run early
+}
+
+// Runs a city through day `days` with no UI, applying each planned action at the
+// start of its day in plan order. `onDayEnd` sees every finished day.
+export const runPlan = (
+  state: SimState,
+  rng: Rng,
+  plan: PlannedAction[],
+  days: number,
+  onDayEnd: (day: number, state: SimState) => void = () => {},
+): PlanResult => {
+  let current = state;
+  let rejected = 0;
+
+  while (current.stats.day <= days) {
+    const day = current.stats.day;
+    if (current.tick % TICKS_PER_DAY === 0) {
+      plan.filter(p => p.day === day).forEach(p => {
+        const result = applyAction(current, p.action);
+        if (result.applied) current = result.state;
+        else rejected++;
+      });
+    }
+
+    current = tick(current, rng).state;
+    // A stopped city never reaches the next day, so the run ends with it
+    const stoppedBy = stopReason(current);
+    if (current.stats.day !== day || stoppedBy) onDayEnd(day, current);
+    if (stoppedBy) return { state: current, rejected, stoppedBy };
+  }
+  return { state: current, rejected, stoppedBy: null };
+};
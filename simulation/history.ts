@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { SimNotice, SimState, TileData } from '../types';
+import { UNDO_HISTORY_DEPTH } from '../constants';
+import { gameOverReason } from './actions';
+
+export interface TileChange {
+  before: TileData;
+  after: TileData;
+}
+
+// One undoable player command: every tile it touched and the money it moved
+export interface HistoryEntry {
+  label: string;
+  changes: TileChange[];
+  moneyDelta: number; // Negative when the command spent money
+}
+
+export interface History {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  depth: number;
+}
+
+export interface HistoryResult {
+  state: SimState;
+  history: History;
+  notices: SimNotice[];
+}
+
+export const createHistory = (depth = UNDO_HISTORY_DEPTH): History => ({ past: [], future: [], depth });
+
+// A shallower history drops the oldest commands on both sides
+export const setHistoryDepth = (history: History, depth: number): History => ({
+  past: history.past.slice(-depth),
+  future: history.future.slice(-depth),
+  depth,
+});
+
+// Builds an entry by comparing the city before and after a command
+export const diffStates = (label: string, before: SimState, after: SimState): HistoryEntry => {
+  const changes: TileChange[] = [];
+  after.grid.forEach((row, y) => row.forEach((tile, x) => {
+    const prev = before.grid[y][x];
+    if (prev !== tile) changes.push({ before: prev, after: tile });
+  }));
+  return { label, changes, moneyDelta: after.stats.money - before.stats.money };
+};
+
+export const recordEntry = (history: History, entry: HistoryEntry): History => {
+  if (entry.changes.length === 0 && entry.moneyDelta === 0) return history;
+  return {
+    ...history,
+    past: [...history.past, entry].slice(-history.depth),
+    future: [],
+  };
+};
+
+// Only the fields a command changed are rolled back, so values the simulation
+// keeps updating (like land prices) are left alone
+const changedKeys = (a: TileData, b: TileData) =>
+  (Array.from(new Set([...Object.keys(a), ...Object.keys(b)])) as (keyof TileData)[]).filter(key => a[key] !== b[key]);
+
+const pick = <K extends keyof TileData>(tile: TileData, keys: K[]): Pick<TileData, K> =>
+  Object.fromEntries(keys.map(key => [key, tile[key]])) as Pick<TileData, K>;
+
+const applyChanges = (state: SimState, changes: TileChange[], direction: 'undo' | 'redo', moneyDelta: number): SimState | string => {
+  const newGrid = state.grid.map(row => [...row]);
+
+  for (const change of changes) {
+    const from = direction === 'undo' ? change.after : change.before;
+    const to = direction === 'undo' ? change.before : change.after;
+    const current = newGrid[from.y]?.[from.x];
+    if (!current) return 'The map has changed size.';
+
+    const keys = changedKeys(from, to);
+    if (keys.some(key => current[key] !== from[key])) return `Tile (${from.x}, ${from.y}) has changed since.`;
+
+    newGrid[from.y][from.x] = { ...current, ...pick(to, keys) };
+  }
+
+  const money = state.stats.money + moneyDelta;
+  if (moneyDelta < 0 && money < 0) return `It needs $${-moneyDelta} and the treasury is short.`;
+  return { ...state, grid: newGrid, stats: { ...state.stats, money } };
+};
+
+export const undo = (state: SimState, history: History): HistoryResult => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return { state, history, notices: [] };
+  const over = gameOverReason(state);
+  if (over) return { state, history, notices: [{ text: over, type: 'neutral' }] };
+
+  const result = applyChanges(state, entry.changes, 'undo', -entry.moneyDelta);
+  if (typeof result === 'string') {
+    return { state, history, notices: [{ text: `Can't undo ${entry.label}. ${result}`, type: 'negative' }] };
+  }
+  return {
+    state: result,
+    history: { ...history, past: history.past.slice(0, -1), future: [...history.future, entry] },
+    notices: [{ text: `Undid ${entry.label}.`, type: 'neutral' }],
+  };
+};
+
+export const redo = (state: SimState, history: History): HistoryResult => {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return { state, history, notices: [] };
+  const over = gameOverReason(state);
+  if (over) return { state, history, notices: [{ text: over, type: 'neutral' }] };
+
+  const result = applyChanges(state, entry.changes, 'redo', entry.moneyDelta);
+  if (typeof result === 'string') {
+    return { state, history, notices: [{ text: `Can't redo ${entry.label}. ${result}`, type: 'negative' }] };
+  }
+  return {
+    state: result,
+    history: { ...history, past: [...history.past, entry], future: history.future.slice(0, -1) },
+    notices: [{ text: `Redid ${entry.label}.`, type: 'neutral' }],
+  };
+};
@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BuildingType, CityEventKind, CivicMetric, Pollution, ServiceKind, SimState, TileData, Utility } from '../types';
+import { BUILDINGS, TICKS_PER_DAY } from '../constants';
+import { inBounds } from './state';
+import { buildRoadNetwork, hasRoadAccess } from './roads';
+import { computeDemand } from './demand';
+import { forEachNeighbor, tileIndex } from './graph';
+import { landValueAt, landValueMultiplier } from './landValue';
+import { canDensify, levelOf } from './levels';
+import { getUtilities, missingUtilities } from './utilities';
+import { SERVICE_KINDS, getServiceCoverage } from './services';
+import { CIVIC_METRICS } from './civic';
+import { eventIncomeMultiplier } from './events';
+import { collectProduction, tileOutput } from './production';
+import { getSellPrice } from './actions';
+
+// Everything the simulation knows about one tile, for the inspector panel
+export interface TileReport {
+  tile: TileData;
+  name: string;
+  level: number | null; // Density level, for buildings that densify
+  landPrice: number;
+  landValue: number; // Multiplier on the base price from the surroundings
+  sellPrice: number | null; // null unless the tile is an owned, cleared plot
+  roadAccess: boolean | null; // null when the tile has nothing that needs a road
+  missing: Utility[];
+  events: CityEventKind[]; // Events in progress on this tile
+  producing: boolean;
+  income: number; // Per day
+  population: number; // Growth per day
+  upkeep: number; // Per day
+  traffic: number; // Cars on this tile last tick
+  pollution: Pollution;
+  happiness: number;
+  civic: Record<CivicMetric, number>;
+  coverage: Record<ServiceKind, number>;
+  neighbors: TileData[];
+}
+
+const hasBuilding = (tile: TileData) => tile.owned && tile.buildingType !== BuildingType.None && tile.buildingType !== BuildingType.Land;
+
+const tileName = (tile: TileData) => {
+  if (tile.isHighway) return 'Highway';
+  if (tile.buildingType !== BuildingType.None && tile.buildingType !== BuildingType.Land) return BUILDINGS[tile.buildingType].name;
+  if (tile.isWater) return 'Water';
+  return tile.owned ? 'Empty Lot' : 'Unowned Land';
+};
+
+export const inspectTile = (state: SimState, x: number, y: number): TileReport | null => {
+  if (!inBounds(state.grid, x, y)) return null;
+  const { grid } = state;
+  const tile = grid[y][x];
+  const index = tileIndex(x, y, grid.length);
+  const config = BUILDINGS[tile.buildingType];
+  const built = hasBuilding(tile);
+
+  // Output is worked out exactly as the last tick did, from the stored traffic, happiness and civic layers
+  const { producers, supply } = collectProduction(state);
+  const producing = producers.some(p => p.x === x && p.y === y);
+  const { yields } = computeDemand(supply, state.stats.population, state.taxRates);
+  const output = producing
+    ? tileOutput({ state, yields, traffic: state.traffic, happiness: state.happiness, civic: state.civic, boost: eventIncomeMultiplier(state.events) }, tile)
+    : null;
+
+  const coverage = getServiceCoverage(grid);
+  const neighbors: TileData[] = [];
+  forEachNeighbor(grid, x, y, n => neighbors.push(n));
+
+  return {
+    tile,
+    name: tileName(tile),
+    level: canDensify(tile) ? levelOf(tile) : null,
+    landPrice: landValueAt(state, tile),
+    landValue: landValueMultiplier(state, tile),
+    sellPrice: tile.owned && !tile.isHighway && !tile.isWater && tile.buildingType === BuildingType.None ? getSellPrice(state, tile) : null,
+    roadAccess: built && config.needsRoad ? hasRoadAccess(buildRoadNetwork(grid), grid, x, y) : null,
+    missing: missingUtilities(getUtilities(grid), grid, tile),
+    events: state.events.filter(event => event.tiles.includes(index)).map(event => event.kind),
+    producing,
+    income: (output?.income ?? 0) * TICKS_PER_DAY,
+    population: (output?.population ?? 0) * TICKS_PER_DAY,
+    upkeep: built ? config.upkeep * TICKS_PER_DAY : 0,
+    traffic: state.traffic[index] ?? 0,
+    pollution: { air: state.pollution.air[index] ?? 0, noise: state.pollution.noise[index] ?? 0 },
+    happiness: state.happiness[index] ?? 0,
+    civic: Object.fromEntries(CIVIC_METRICS.map(metric => [metric, state.civic[metric][index] ?? 0])) as Record<CivicMetric, number>,
+    coverage: Object.fromEntries(SERVICE_KINDS.map(kind => [kind, coverage[kind][index] ?? 0])) as Record<ServiceKind, number>,
+    neighbors,
+  };
+};
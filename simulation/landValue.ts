@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BuildingType, Grid, SimState, TileData } from '../types';
+import {
+  CONGESTION_LAND_PENALTY,
+  LAND_COST,
+  LAND_VALUE_EFFECTS,
+  LAND_VALUE_OUTPUT_WEIGHT,
+  LAND_VALUE_RADIUS,
+  LAND_VALUE_RANGE,
+  WATER_LAND_VALUE,
+} from '../constants';
+import { forEachInRadius, tileIndex } from './graph';
+import { congestionNear } from './traffic';
+import { civicMultiplier } from './civic';
+
+const basePrice = (tile: TileData) => tile.landPrice || LAND_COST;
+
+// How much the surroundings and civic conditions raise (>1) or lower (<1) a tile's base price.
+// Each nearby influence fades linearly to nothing just past LAND_VALUE_RADIUS.
+const surroundingsMultiplier = (grid: Grid, traffic: number[], civic: SimState['civic'], tile: TileData) => {
+  let bonus = 0;
+  forEachInRadius(grid, tile.x, tile.y, LAND_VALUE_RADIUS, (other, falloff) => {
+    if (other.isWater) bonus += WATER_LAND_VALUE * falloff;
+    if (other.owned && other.buildingType !== BuildingType.None) bonus += (LAND_VALUE_EFFECTS[other.buildingType] ?? 0) * falloff;
+  });
+  const multiplier = (1 + bonus)
+    * (1 - CONGESTION_LAND_PENALTY * congestionNear(grid, traffic, tile.x, tile.y))
+    * civicMultiplier(civic, tileIndex(tile.x, tile.y, grid.length), 'landValue');
+  return Math.min(LAND_VALUE_RANGE[1], Math.max(LAND_VALUE_RANGE[0], multiplier));
+};
+
+// Current value of every tile, by tile index
+export const computeLandValue = (grid: Grid, traffic: number[], civic: SimState['civic']): number[] =>
+  grid.flat().map(tile => Math.round(basePrice(tile) * surroundingsMultiplier(grid, traffic, civic, tile)));
+
+export const landValueAt = (state: Pick<SimState, 'grid' | 'landValue'>, tile: TileData) =>
+  state.landValue[tileIndex(tile.x, tile.y, state.grid.length)] ?? basePrice(tile);
+
+// Current value relative to the tile's base price
+export const landValueMultiplier = (state: Pick<SimState, 'grid' | 'landValue'>, tile: TileData) =>
+  landValueAt(state, tile) / basePrice(tile);
+
+// Output scale for homes and shops: better neighbourhoods attract more people and customers
+export const landValueOutput = (state: Pick<SimState, 'grid' | 'landValue'>, tile: TileData) =>
+  1 + (landValueMultiplier(state, tile) - 1) * LAND_VALUE_OUTPUT_WEIGHT;
@@ -0,0 +1,19 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { TileData } from '../types';
+import { BUILDINGS, DENSITY_LEVELS, UPGRADE_COST_MULTIPLIER } from '../constants';
+
+// Density level helpers shared by the simulation and the renderer
+
+export const MAX_LEVEL = DENSITY_LEVELS.length;
+
+export const levelOf = (tile: TileData) => tile.level ?? 1;
+
+// Output multiplier for the tile's building at its current level
+export const levelScale = (tile: TileData) => DENSITY_LEVELS[levelOf(tile) - 1]?.output ?? 1;
+
+export const canDensify = (tile: TileData) => tile.owned && !!BUILDINGS[tile.buildingType].densifies;
+
+export const upgradeCost = (tile: TileData) => BUILDINGS[tile.buildingType].cost * UPGRADE_COST_MULTIPLIER * levelOf(tile);
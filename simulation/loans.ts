@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ActionResult, Loan, LoanTerm, SimNotice, SimState } from '../types';
+import { BANKRUPTCY_GRACE_DAYS, BASE_CREDIT_LIMIT, CREDIT_PER_RESIDENT, LOAN_TERMS } from '../constants';
+
+// Lenders trust bigger cities with more debt
+export const creditLimit = (population: number) => BASE_CREDIT_LIMIT + Math.floor(population * CREDIT_PER_RESIDENT);
+
+export const totalDebt = (loans: Loan[]) => loans.reduce((sum, loan) => sum + loan.balance, 0);
+
+export const availableCredit = (state: Pick<SimState, 'loans' | 'stats'>) =>
+  Math.max(0, creditLimit(state.stats.population) - totalDebt(state.loans));
+
+// Total owed and the daily instalment for borrowing `amount`
+export const loanQuote = (term: LoanTerm, amount: number) => {
+  const { days, interest } = LOAN_TERMS[term];
+  const total = Math.round(amount * (1 + interest));
+  return { total, payment: Math.ceil(total / days) };
+};
+
+export const takeLoan = (state: SimState, term: LoanTerm, amount: number): ActionResult => {
+  if (amount <= 0) return { state, applied: false, notices: [] };
+  const { total, payment } = loanQuote(term, amount);
+  const credit = availableCredit(state);
+  if (total > credit) {
+    return { state, applied: false, notices: [{ text: `Credit limit reached. The city can only take on $${credit} more debt, interest included.`, type: 'negative' }] };
+  }
+
+  const { label, days } = LOAN_TERMS[term];
+  const id = state.loans.reduce((max, loan) => Math.max(max, loan.id), 0) + 1;
+  return {
+    state: {
+      ...state,
+      loans: [...state.loans, { id, term, principal: amount, balance: total, payment }],
+      stats: { ...state.stats, money: state.stats.money + amount },
+    },
+    applied: true,
+    notices: [{ text: `${label} of $${amount} taken out. Repayments are $${payment} a day for ${days} days.`, type: 'neutral' }],
+  };
+};
+
+// Pays off whatever is left in one go; there is no penalty for repaying early
+export const repayLoan = (state: SimState, id: number): ActionResult => {
+  const loan = state.loans.find(l => l.id === id);
+  if (!loan) return { state, applied: false, notices: [] };
+  if (state.stats.money < loan.balance) {
+    return { state, applied: false, notices: [{ text: `Treasury can't cover the $${loan.balance} still owed.`, type: 'negative' }] };
+  }
+  return {
+    state: {
+      ...state,
+      loans: state.loans.filter(l => l.id !== id),
+      stats: { ...state.stats, money: state.stats.money - loan.balance },
+    },
+    applied: true,
+    notices: [{ text: `${LOAN_TERMS[loan.term].label} of $${loan.principal} repaid early.`, type: 'positive' }],
+  };
+};
+
+// Daily instalments, taken whether or not the treasury can afford them
+export const collectRepayments = (loans: Loan[]): { loans: Loan[]; paid: number; notices: SimNotice[] } => {
+  let paid = 0;
+  const running: Loan[] = [];
+  const notices: SimNotice[] = [];
+  loans.forEach(loan => {
+    const payment = Math.min(loan.payment, loan.balance);
+    paid += payment;
+    if (loan.balance > payment) running.push({ ...loan, balance: loan.balance - payment });
+    else notices.push({ text: `${LOAN_TERMS[loan.term].label} of $${loan.principal} paid off.`, type: 'positive' });
+  });
+  return { loans: running, paid, notices };
+};
+
+// Counts days ending in the red. Past the grace period the city is bankrupt.
+export const updateSolvency = (daysInRed: number, money: number): { daysInRed: number; bankrupt: boolean; notices: SimNotice[] } => {
+  if (money >= 0) return { daysInRed: 0, bankrupt: false, notices: [] };
+  const days = daysInRed + 1;
+  const left = BANKRUPTCY_GRACE_DAYS - days;
+  if (left < 0) {
+    return { daysInRed: days, bankrupt: true, notices: [{ text: "The city has gone bankrupt. Creditors have taken over city hall.", type: 'negative' }] };
+  }
+  const notices: SimNotice[] = left <= 3
+    ? [{ text: `${left === 0 ? 'Last day' : `${left} day${left === 1 ? '' : 's'} left`} to get the treasury out of the red before bankruptcy.`, type: 'negative' }]
+    : [];
+  return { daysInRed: days, bankrupt: false, notices };
+};
@@ -0,0 +1,186 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BuildingType, Coastline, Grid, MapOptions, TileData } from '../types';
+import { MAP_PRESETS } from '../constants';
+import { Rng, createRng } from './rng';
+import { addHighway } from './roads';
+
+type WaterMask = boolean[][];
+
+export const DEFAULT_MAP_PRESET = MAP_PRESETS[0];
+
+export const getMapPreset = (id: string) => MAP_PRESETS.find(p => p.id === id) ?? DEFAULT_MAP_PRESET;
+
+// Smooth 1D noise from a few sine waves with seeded phases
+const makeWave = (rng: Rng, frequency: number) => {
+  const phases = [rng.range(0, Math.PI * 2), rng.range(0, Math.PI * 2)];
+  return (t: number) => Math.sin(t * frequency + phases[0]) * 0.7 + Math.sin(t * frequency * 2.3 + phases[1]) * 0.3;
+};
+
+const isSideCoast = (coastline: Coastline) => coastline !== 'none' && coastline !== 'island';
+
+// --- Terrain passes ---
+
+const addCoastline = (water: WaterMask, options: MapOptions, rng: Rng) => {
+  const { size, coastline } = options;
+  if (coastline === 'none') return;
+
+  if (coastline === 'island') {
+    const center = (size - 1) / 2;
+    const baseRadius = size * 0.4;
+    const wave = makeWave(rng, 3);
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const angle = Math.atan2(y - center, x - center);
+        const dist = Math.hypot(x - center, y - center);
+        if (dist > baseRadius * (1 + wave(angle) * 0.12)) water[y][x] = true;
+      }
+    }
+    return;
+  }
+
+  const depth = Math.max(2, Math.round(size * 0.12));
+  const wave = makeWave(rng, 0.35);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      // Distance into the map measured from the coast edge, and position along it
+      const [inland, along] =
+        coastline === 'north' ? [y, x] :
+        coastline === 'south' ? [size - 1 - y, x] :
+        coastline === 'west' ? [x, y] : [size - 1 - x, y];
+      if (inland < depth + wave(along) * 1.5) water[y][x] = true;
+    }
+  }
+};
+
+const addRivers = (water: WaterMask, options: MapOptions, rng: Rng) => {
+  const { size, rivers, riverWidth, riverBranches, coastline } = options;
+  const half = riverWidth / 2;
+
+  for (let r = 0; r < rivers; r++) {
+    // Rivers run toward a side coast; otherwise pick an axis at random
+    const vertical = isSideCoast(coastline) ? coastline === 'north' || coastline === 'south' : rng.next() < 0.5;
+    const mouthAtStart = coastline === 'north' || coastline === 'west';
+    const offset = size * (rivers === 1 ? rng.range(0.4, 0.6) : (r + 1) / (rivers + 1) + rng.range(-0.05, 0.05));
+    const amplitude = rng.range(1.5, 3.5);
+    const wave = makeWave(rng, rng.range(0.25, 0.45));
+    const splitAt = size * 0.45;
+    const fanWidth = size * 0.5;
+
+    for (let t = 0; t < size; t++) {
+      const center = offset + wave(t) * amplitude;
+      const downstream = mouthAtStart ? size - 1 - t : t;
+      const spread = riverBranches > 1 ? Math.max(0, downstream - splitAt) / (size - splitAt) : 0;
+
+      for (let b = 0; b < riverBranches; b++) {
+        const branchOffset = riverBranches > 1 ? (b / (riverBranches - 1) - 0.5) * fanWidth * spread : 0;
+        const c = center + branchOffset;
+        for (let s = 0; s < size; s++) {
+          if (Math.abs(s - c) < half) {
+            if (vertical) water[t][s] = true;
+            else water[s][t] = true;
+          }
+        }
+      }
+    }
+  }
+};
+
+const addLakes = (water: WaterMask, options: MapOptions, rng: Rng) => {
+  const { size, lakes } = options;
+  for (let l = 0; l < lakes; l++) {
+    const cx = rng.range(size * 0.15, size * 0.85);
+    const cy = rng.range(size * 0.15, size * 0.85);
+    const radius = rng.range(1.5, Math.max(2, size * 0.1));
+    const wave = makeWave(rng, 2);
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const angle = Math.atan2(y - cy, x - cx);
+        if (Math.hypot(x - cx, y - cy) < radius * (1 + wave(angle) * 0.25)) water[y][x] = true;
+      }
+    }
+  }
+};
+
+// --- Starting plot ---
+
+const countWater = (water: WaterMask, x0: number, y0: number, plotSize: number) => {
+  let count = 0;
+  for (let y = y0; y < y0 + plotSize; y++) {
+    for (let x = x0; x < x0 + plotSize; x++) if (water[y][x]) count++;
+  }
+  return count;
+};
+
+// Returns the top-left corner of the starting plot
+const placeStartPlot = (water: WaterMask, options: MapOptions, rng: Rng) => {
+  const { size } = options;
+  const plotSize = Math.min(options.startPlot.size, size);
+  const centered = Math.floor(size / 2) - Math.floor(plotSize / 2);
+  if (options.startPlot.anchor === 'center') return { x: centered, y: centered, size: plotSize };
+
+  // Try a handful of spots away from the map edge and keep the driest one.
+  // On small maps the margin can leave no room, so spots are clamped to fit.
+  const margin = Math.floor(size * 0.2);
+  const span = Math.max(1, size - plotSize - margin * 2);
+  const maxCorner = size - plotSize;
+  let best = { x: centered, y: centered, size: plotSize };
+  let bestWater = countWater(water, centered, centered, plotSize);
+  for (let i = 0; i < 24 && bestWater > 0; i++) {
+    const x = Math.min(margin + rng.int(span), maxCorner);
+    const y = Math.min(margin + rng.int(span), maxCorner);
+    const wet = countWater(water, x, y, plotSize);
+    if (wet < bestWater) {
+      best = { x, y, size: plotSize };
+      bestWater = wet;
+    }
+  }
+  return best;
+};
+
+// --- Entry point ---
+
+// Builds a map from a seed. The same seed and options always give the same grid.
+// A highway links the starting plot to the nearest map edge.
+export const generateMap = (seed: number, options: MapOptions): Grid => {
+  const rng = createRng(seed);
+  const { size, landPrice } = options;
+  const water: WaterMask = Array.from({ length: size }, () => Array(size).fill(false));
+
+  addCoastline(water, options, rng);
+  addRivers(water, options, rng);
+  addLakes(water, options, rng);
+
+  const plot = placeStartPlot(water, options, rng);
+  const plotCenterX = plot.x + (plot.size - 1) / 2;
+  const plotCenterY = plot.y + (plot.size - 1) / 2;
+  const isWaterAt = (x: number, y: number) => y >= 0 && y < size && x >= 0 && x < size && water[y][x];
+
+  const grid: Grid = [];
+  for (let y = 0; y < size; y++) {
+    const row: TileData[] = [];
+    for (let x = 0; x < size; x++) {
+      const owned = x >= plot.x && x < plot.x + plot.size && y >= plot.y && y < plot.y + plot.size;
+      const dist = Math.hypot(x - plotCenterX, y - plotCenterY);
+      const waterfront = !water[y][x] && (isWaterAt(x-1, y) || isWaterAt(x+1, y) || isWaterAt(x, y-1) || isWaterAt(x, y+1));
+      const plotPrice = landPrice.base
+        + rng.int(landPrice.variance)
+        + Math.floor(Math.pow(dist, landPrice.exponent) * landPrice.distanceRate)
+        + (waterfront ? landPrice.waterfrontBonus : 0);
+
+      row.push({
+        x,
+        y,
+        buildingType: BuildingType.None,
+        owned,
+        isWater: water[y][x],
+        isRail: false, // Rail must be built now
+        landPrice: plotPrice,
+      });
+    }
+    grid.push(row);
+  }
+  return addHighway(grid);
+};
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BuildingType, Milestone, SimNotice, SimState } from '../types';
+import { BUILDINGS, MILESTONES } from '../constants';
+import { totalIncome } from './budget';
+import { isBuildingLocked } from './scenarios';
+
+// Why a tool can't be used yet: a short toolbar label and the full requirement
+export interface ToolLock {
+  label: string;
+  reason: string;
+}
+
+// Daily income is judged on the last full day, so a partial day never counts
+export const milestoneProgress = (state: Pick<SimState, 'stats' | 'budget'>, milestone: Milestone) =>
+  milestone.metric === 'population' ? state.stats.population : Math.round(state.budget.lastDay ? totalIncome(state.budget.lastDay) : 0);
+
+export const requirementText = (milestone: Milestone) =>
+  milestone.metric === 'population' ? `${milestone.value.toLocaleString()} population` : `$${milestone.value.toLocaleString()} daily income`;
+
+const requirementLabel = (milestone: Milestone) =>
+  milestone.metric === 'population' ? `${milestone.value.toLocaleString()} pop` : `$${milestone.value.toLocaleString()}/day`;
+
+export const toolLock = (state: Pick<SimState, 'scenario' | 'milestones'>, tool: BuildingType): ToolLock | null => {
+  if (isBuildingLocked(state, tool)) return { label: 'Locked', reason: 'Not available in this scenario' };
+  if (state.scenario?.scenario.unlockedBuildings.includes(tool)) return null;
+  const milestone = MILESTONES.find(m => m.unlocks.includes(tool) && !state.milestones.includes(m.id));
+  return milestone ? { label: requirementLabel(milestone), reason: `Unlocks at ${milestone.name} (${requirementText(milestone)})` } : null;
+};
+
+export const lockedTools = (state: Pick<SimState, 'scenario' | 'milestones'>) => {
+  const locks: Partial<Record<BuildingType, ToolLock>> = {};
+  Object.values(BuildingType).forEach(tool => {
+    const lock = toolLock(state, tool);
+    if (lock) locks[tool] = lock;
+  });
+  return locks;
+};
+
+// Pays out every milestone the city has just reached and announces what it unlocks
+export const checkMilestones = (state: SimState): { state: SimState; notices: SimNotice[] } => {
+  const reached = MILESTONES.filter(m => !state.milestones.includes(m.id) && milestoneProgress(state, m) >= m.value);
+  if (reached.length === 0) return { state, notices: [] };
+
+  const reward = reached.reduce((sum, m) => sum + m.reward, 0);
+  return {
+    state: {
+      ...state,
+      stats: { ...state.stats, money: state.stats.money + reward },
+      milestones: [...state.milestones, ...reached.map(m => m.id)],
+    },
+    notices: reached.map(m => ({
+      text: `Milestone reached: ${m.name}! ${m.unlocks.map(type => BUILDINGS[type].name).join(', ')} unlocked. Reward: $${m.reward.toLocaleString()}.`,
+      type: 'positive',
+    })),
+  };
+};
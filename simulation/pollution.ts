@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BuildingType, Grid, Pollution, SimState, TileData } from '../types';
+import {
+  AIR_POLLUTION_RADIUS,
+  BUILDINGS,
+  NOISE_POLLUTION_RADIUS,
+  ROAD_AIR_POLLUTION,
+  ROAD_CAPACITY,
+  ROAD_NOISE_POLLUTION,
+} from '../constants';
+import { forEachInRadius, tileIndex } from './graph';
+import { isRoadTile } from './roads';
+import { levelScale } from './levels';
+
+// What a tile gives off: busy roads by their traffic, buildings by their config
+const emissions = (tile: TileData, traffic: number[], size: number): Pollution | undefined => {
+  if (isRoadTile(tile)) {
+    const load = Math.min(2, (traffic[tileIndex(tile.x, tile.y, size)] ?? 0) / ROAD_CAPACITY);
+    return { air: ROAD_AIR_POLLUTION * load, noise: ROAD_NOISE_POLLUTION * load };
+  }
+  const source = tile.owned && tile.buildingType !== BuildingType.None ? BUILDINGS[tile.buildingType].pollution : undefined;
+  if (!source) return undefined;
+  const scale = levelScale(tile); // Denser buildings pollute more
+  return { air: source.air * scale, noise: source.noise * scale };
+};
+
+const spread = (layer: number[], grid: Grid, tile: TileData, amount: number, radius: number) => {
+  if (amount <= 0) return;
+  layer[tileIndex(tile.x, tile.y, grid.length)] += amount;
+  forEachInRadius(grid, tile.x, tile.y, radius, (other, falloff) => {
+    layer[tileIndex(other.x, other.y, grid.length)] += amount * falloff;
+  });
+};
+
+const toLevel = (value: number) => Math.round(Math.min(1, value) * 100) / 100;
+
+// Air and noise pollution on every tile. Air carries further than noise; overlapping sources add up.
+export const computePollution = (grid: Grid, traffic: number[]): SimState['pollution'] => {
+  const size = grid.length;
+  const air = new Array(size * size).fill(0);
+  const noise = new Array(size * size).fill(0);
+
+  grid.forEach(row => row.forEach(tile => {
+    const source = emissions(tile, traffic, size);
+    if (!source) return;
+    spread(air, grid, tile, source.air, AIR_POLLUTION_RADIUS);
+    spread(noise, grid, tile, source.noise, NOISE_POLLUTION_RADIUS);
+  }));
+
+  return { air: air.map(toLevel), noise: noise.map(toLevel) };
+};
@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BudgetReport, BuildingType, IncomeCategory, SimState, TileData, ZoneDemand } from '../types';
+import { BUILDINGS, CONGESTION_INCOME_PENALTY } from '../constants';
+import { buildRoadNetwork, isRoadServed } from './roads';
+import { ZoneSupply } from './demand';
+import { taxGrowthFactor, taxMultiplier } from './budget';
+import { tileIndex } from './graph';
+import { congestionNear } from './traffic';
+import { landValueOutput } from './landValue';
+import { happinessGrowth } from './happiness';
+import { levelScale } from './levels';
+import { getUtilities, missingUtilities } from './utilities';
+import { civicMultiplier } from './civic';
+import { disruptedTiles } from './events';
+
+export interface Production {
+  producers: TileData[];
+  supply: ZoneSupply;
+  upkeep: BudgetReport['expenses'];
+}
+
+// Buildings that produce this tick and the upkeep every owned building owes. Buildings
+// cut off from the highway, power or water, flooded or shut by an accident produce nothing.
+export const collectProduction = (state: Pick<SimState, 'grid' | 'events'>): Production => {
+  const roads = buildRoadNetwork(state.grid);
+  const utilities = getUtilities(state.grid);
+  const disrupted = disruptedTiles(state.events);
+  const size = state.grid.length;
+  const producers: TileData[] = [];
+  const supply: ZoneSupply = { housing: 0, commercialJobs: 0, industrialJobs: 0 };
+  const upkeep: BudgetReport['expenses'] = {};
+
+  state.grid.forEach(row => row.forEach(tile => {
+    if (tile.buildingType === BuildingType.None || tile.buildingType === BuildingType.Land || !tile.owned) return;
+    const config = BUILDINGS[tile.buildingType];
+
+    // Upkeep is owed whether or not the building produces
+    if (config.upkeep > 0 && config.budgetCategory) {
+      upkeep[config.budgetCategory] = (upkeep[config.budgetCategory] ?? 0) + config.upkeep;
+    }
+
+    if (!isRoadServed(roads, state.grid, tile) || missingUtilities(utilities, state.grid, tile).length > 0) return;
+    if (disrupted.has(tileIndex(tile.x, tile.y, size))) return;
+    producers.push(tile);
+    const scale = levelScale(tile);
+    supply.housing += (config.housing ?? 0) * scale;
+    if (config.zone === 'commercial') supply.commercialJobs += (config.jobs ?? 0) * scale;
+    if (config.zone === 'industrial') supply.industrialJobs += (config.jobs ?? 0) * scale;
+  }));
+
+  return { producers, supply, upkeep };
+};
+
+export interface OutputContext {
+  state: Pick<SimState, 'grid' | 'landValue' | 'taxRates'>;
+  yields: ZoneDemand;
+  traffic: number[];
+  happiness: number[];
+  civic: SimState['civic'];
+  boost: number; // Commercial and industrial income multiplier from events
+}
+
+export interface TileOutput {
+  category: IncomeCategory | null; // Where the income is booked; null when the building earns none per tick
+  income: number;
+  population: number;
+}
+
+// Tax income and population growth one producing building adds per tick, scaled by density
+// level, RCI demand, taxes, traffic, happiness, civic services and booms
+export const tileOutput = ({ state, yields, traffic, happiness, civic, boost }: OutputContext, tile: TileData): TileOutput => {
+  const config = BUILDINGS[tile.buildingType];
+  const zoneYield = config.zone ? yields[config.zone] : 1;
+  const scale = levelScale(tile);
+  const { taxRates } = state;
+  let category: IncomeCategory | null = null;
+  let income = 0;
+
+  if (config.incomeGen > 0 && !config.incomeOnArrival) {
+    category = config.zone ?? 'other';
+    const rate = config.zone ? taxMultiplier(taxRates[config.zone]) : 1;
+    // Shoppers avoid jammed streets and favour pleasant neighbourhoods
+    const access = config.zone === 'commercial'
+      ? (1 - CONGESTION_INCOME_PENALTY * congestionNear(state.grid, traffic, tile.x, tile.y)) * landValueOutput(state, tile)
+      : 1;
+    const boom = config.zone === 'commercial' || config.zone === 'industrial' ? boost : 1;
+    income = config.incomeGen * scale * zoneYield * rate * access * boom;
+  }
+  // Residential growth follows housing demand, residential tax, land value, happiness and civic conditions;
+  // other pop sources are unaffected
+  const growth = config.zone === 'residential'
+    ? yields.residential * taxGrowthFactor(taxRates.residential) * landValueOutput(state, tile)
+      * happinessGrowth({ grid: state.grid, happiness }, tile) * civicMultiplier(civic, tileIndex(tile.x, tile.y, state.grid.length), 'growth')
+    : 1;
+
+  return { category, income, population: config.popGen * scale * growth };
+};
@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BuildingType, Grid, TileData, Train } from '../types';
+import { MAX_TRAINS, STATIONS_PER_TRAIN, TRAIN_TILES_PER_TICK } from '../constants';
+import { Rng } from './rng';
+import { TileGraph, buildTileGraph, findPath, floodFrom, tileIndex } from './graph';
+
+export interface RailNetwork {
+  graph: TileGraph;
+  stations: number[]; // Station tiles, in grid order
+  switches: number[]; // Track tiles where three or four lines meet
+}
+
+const isStation = (tile: TileData) => tile.buildingType === BuildingType.TrainStation && tile.owned;
+
+// Stations sit on the network so that track running up to them connects
+export const isRailNode = (tile: TileData) => tile.isRail || tile.buildingType === BuildingType.Rail || isStation(tile);
+
+export const buildRailNetwork = (grid: Grid): RailNetwork => {
+  const graph = buildTileGraph(grid, isRailNode);
+  const stations: number[] = [];
+  grid.forEach(row => row.forEach(tile => {
+    if (isStation(tile)) stations.push(tileIndex(tile.x, tile.y, grid.length));
+  }));
+  const switches = graph.nodes.filter(node => !stations.includes(node) && graph.neighbors.get(node)!.length >= 3);
+  return { graph, stations, switches };
+};
+
+// Sends a train from `origin` to a random other station it can reach
+const routeFrom = (network: RailNetwork, origin: number, rng: Rng): number[] | null => {
+  const reachable = floodFrom(network.graph, [origin]);
+  const targets = network.stations.filter(s => s !== origin && reachable.has(s));
+  if (targets.length === 0) return null;
+  return findPath(network.graph, origin, rng.pick(targets));
+};
+
+// A train is dropped as soon as any tile on its route stops being track or station
+const routeIntact = (network: RailNetwork, route: number[]) =>
+  route.every(node => network.graph.neighbors.has(node))
+  && network.stations.includes(route[0])
+  && network.stations.includes(route[route.length - 1]);
+
+export interface RailUpdate {
+  trains: Train[];
+  arrivals: number[]; // Station tiles a train reached this tick
+}
+
+// Moves every train along its route, turns arrived trains around toward a new
+// destination and tops each connected group of stations up to its share of trains
+export const advanceTrains = (grid: Grid, trains: Train[], rng: Rng): RailUpdate => {
+  const network = buildRailNetwork(grid);
+  const arrivals: number[] = [];
+  const moved: Train[] = [];
+
+  trains.filter(train => routeIntact(network, train.route)).forEach(train => {
+    const progress = train.progress + TRAIN_TILES_PER_TICK;
+    const last = train.route.length - 1;
+    if (progress < last) {
+      moved.push({ ...train, progress });
+      return;
+    }
+    const destination = train.route[last];
+    arrivals.push(destination);
+    const next = routeFrom(network, destination, rng);
+    if (next) moved.push({ ...train, route: next, progress: 0 });
+  });
+
+  // Each group of linked stations gets one train per STATIONS_PER_TRAIN stations
+  let nextId = trains.reduce((max, t) => Math.max(max, t.id), 0) + 1;
+  const grouped = new Set<number>();
+  network.stations.forEach(station => {
+    if (grouped.has(station)) return;
+    const reachable = floodFrom(network.graph, [station]);
+    const group = network.stations.filter(s => reachable.has(s));
+    group.forEach(s => grouped.add(s));
+    if (group.length < 2) return;
+
+    const wanted = Math.ceil(group.length / STATIONS_PER_TRAIN);
+    let running = moved.filter(t => reachable.has(t.route[0])).length;
+    while (running < wanted && moved.length < MAX_TRAINS) {
+      const route = routeFrom(network, rng.pick(group), rng);
+      if (!route) break;
+      moved.push({ id: nextId++, route, progress: 0 });
+      running++;
+    }
+  });
+
+  return { trains: moved, arrivals };
+};
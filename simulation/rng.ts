@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Small seeded PRNG (mulberry32). The whole generator state is one 32-bit
+// integer, so it can be stored in SimState and resumed from a save file.
+export interface Rng {
+  state: number;
+  next: () => number; // [0, 1)
+  int: (maxExclusive: number) => number;
+  range: (min: number, max: number) => number;
+  pick: <T>(items: readonly T[]) => T;
+}
+
+export const createRng = (seed: number): Rng => {
+  const rng: Rng = {
+    state: seed >>> 0,
+    next: () => {
+      rng.state = (rng.state + 0x6d2b79f5) >>> 0;
+      let t = rng.state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    int: (maxExclusive) => Math.floor(rng.next() * maxExclusive),
+    range: (min, max) => rng.next() * (max - min) + min,
+    pick: (items) => items[Math.floor(rng.next() * items.length)],
+  };
+  return rng;
+};
+
+// Fresh seed for a new city. Only place that is allowed to use Math.random.
+export const randomSeed = () => Math.floor(Math.random() * 0x7fffffff);
@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BuildingType, Grid, TileData } from '../types';
+import { BUILDINGS } from '../constants';
+import { TileGraph, buildTileGraph, floodFrom, forEachNeighbor, tileIndex } from './graph';
+
+export interface RoadNetwork {
+  graph: TileGraph;
+  entries: number[]; // Highway tiles on the map edge
+  connected: Set<number>; // Road tiles that reach a highway entry
+}
+
+export const isRoadTile = (tile: TileData) => tile.buildingType === BuildingType.Road || tile.buildingType === BuildingType.Bridge;
+
+const isEdgeTile = (grid: Grid, tile: TileData) =>
+  tile.x === 0 || tile.y === 0 || tile.x === grid.length - 1 || tile.y === grid.length - 1;
+
+export const buildRoadNetwork = (grid: Grid): RoadNetwork => {
+  const graph = buildTileGraph(grid, isRoadTile);
+  const entries: number[] = [];
+  grid.forEach(row => row.forEach(tile => {
+    if (tile.isHighway && isRoadTile(tile) && isEdgeTile(grid, tile)) entries.push(tileIndex(tile.x, tile.y, grid.length));
+  }));
+  return { graph, entries, connected: floodFrom(graph, entries) };
+};
+
+// True when the tile sits next to a road that is linked to the highway
+export const hasRoadAccess = (network: RoadNetwork, grid: Grid, x: number, y: number) => {
+  let access = false;
+  forEachNeighbor(grid, x, y, n => {
+    if (network.connected.has(tileIndex(n.x, n.y, grid.length))) access = true;
+  });
+  return access;
+};
+
+// Whether this tile's building would produce right now as far as roads are concerned
+export const isRoadServed = (network: RoadNetwork, grid: Grid, tile: TileData) =>
+  !BUILDINGS[tile.buildingType].needsRoad || hasRoadAccess(network, grid, tile.x, tile.y);
+
+// --- Highway ---
+
+// Lays a highway from the nearest map edge to the edge of the owned land.
+// Used by the map generator and to retrofit saves made before roads mattered.
+export const addHighway = (grid: Grid): Grid => {
+  const size = grid.length;
+  const owned = grid.flat().filter(t => t.owned);
+  if (owned.length === 0 || grid.some(row => row.some(t => t.isHighway))) return grid;
+
+  const minX = Math.min(...owned.map(t => t.x));
+  const maxX = Math.max(...owned.map(t => t.x));
+  const minY = Math.min(...owned.map(t => t.y));
+  const maxY = Math.max(...owned.map(t => t.y));
+  const cx = Math.round((minX + maxX) / 2);
+  const cy = Math.round((minY + maxY) / 2);
+
+  const range = (from: number, to: number) => {
+    const step = from <= to ? 1 : -1;
+    const out: number[] = [];
+    for (let i = from; i !== to + step; i += step) out.push(i);
+    return out;
+  };
+
+  // Candidate straight runs from the plot out to each edge
+  const candidates: [number, number][][] = [
+    minX > 0 ? range(minX - 1, 0).map(x => [x, cy] as [number, number]) : [],
+    maxX < size - 1 ? range(maxX + 1, size - 1).map(x => [x, cy] as [number, number]) : [],
+    minY > 0 ? range(minY - 1, 0).map(y => [cx, y] as [number, number]) : [],
+    maxY < size - 1 ? range(maxY + 1, size - 1).map(y => [cx, y] as [number, number]) : [],
+  ].filter(path => path.length > 0);
+  if (candidates.length === 0) return grid;
+
+  // Prefer short runs over land; every bridge tile counts as three land tiles
+  const cost = (path: [number, number][]) => path.reduce((sum, [x, y]) => sum + (grid[y][x].isWater ? 3 : 1), 0);
+  const best = candidates.reduce((a, b) => (cost(b) < cost(a) ? b : a));
+
+  const newGrid = grid.map(row => [...row]);
+  best.forEach(([x, y]) => {
+    const tile = newGrid[y][x];
+    newGrid[y][x] = {
+      ...tile,
+      buildingType: tile.isWater ? BuildingType.Bridge : BuildingType.Road,
+      owned: false,
+      isHighway: true,
+    };
+  });
+  return newGrid;
+};
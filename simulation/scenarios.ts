@@ -0,0 +1,177 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BuildingType, GoalMetric, Scenario, ScenarioFailure, ScenarioGoal, ScenarioOutcome, ScenarioState, SimNotice, SimState } from '../types';
+import { BUILDINGS, INITIAL_MONEY, MAP_PRESETS } from '../constants';
+import { createInitialState } from './state';
+import { getMapPreset } from './mapgen';
+import { goalProgress } from './advisor';
+import { isNumber, isOneOf, isRecord } from './guards';
+
+const METRICS: GoalMetric[] = ['population', 'money', 'building_count'];
+const OUTCOMES: ScenarioOutcome[] = ['playing', 'won', 'lost'];
+
+const metricText = (targetType: GoalMetric, buildingType?: BuildingType) =>
+  targetType === 'building_count' ? `${buildingType ? BUILDINGS[buildingType].name : 'building'} count` : targetType;
+
+const amountText = (targetType: GoalMetric, value: number) =>
+  targetType === 'money' ? `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString()}` : value.toLocaleString();
+
+export const goalText = (goal: ScenarioGoal) => goal.description ?? (
+  `Reach ${amountText(goal.targetType, goal.targetValue)} ${metricText(goal.targetType, goal.buildingType)}${goal.deadline ? ` by day ${goal.deadline}` : ''}`
+);
+
+export const failureText = (failure: ScenarioFailure) => failure.description ?? [
+  failure.below !== undefined && `${metricText(failure.targetType, failure.buildingType)} drops below ${amountText(failure.targetType, failure.below)}`,
+  failure.above !== undefined && `${metricText(failure.targetType, failure.buildingType)} climbs above ${amountText(failure.targetType, failure.above)}`,
+].filter(Boolean).join(' or ') + (failure.fromDay ? ` from day ${failure.fromDay}` : '');
+
+// --- Validation ---
+// Custom scenarios come from hand-written JSON, so every field is checked and errors name the culprit.
+
+type Entry = Record<string, unknown>;
+
+const isBuilding = (value: unknown): value is BuildingType => typeof value === 'string' && value in BUILDINGS;
+
+// The metric shared by goals and failure conditions
+const parseTarget = (entry: Entry, where: string): Pick<ScenarioGoal, 'description' | 'targetType' | 'buildingType'> => {
+  const { targetType, buildingType, description } = entry;
+  if (!isOneOf(METRICS, targetType)) throw new Error(`${where}: targetType must be one of ${METRICS.join(', ')}.`);
+  if (targetType === 'building_count' && !isBuilding(buildingType)) throw new Error(`${where}: building_count needs a valid buildingType.`);
+  if (description !== undefined && typeof description !== 'string') throw new Error(`${where}: description must be text.`);
+  return {
+    description: typeof description === 'string' ? description : undefined,
+    targetType,
+    buildingType: isBuilding(buildingType) ? buildingType : undefined,
+  };
+};
+
+const optionalNumber = (entry: Entry, key: string, where: string): number | undefined => {
+  const value = entry[key];
+  if (value === undefined) return undefined;
+  if (!isNumber(value)) throw new Error(`${where}: ${key} must be a number.`);
+  return value;
+};
+
+const parseGoal = (entry: unknown, index: number): ScenarioGoal => {
+  const where = `Goal ${index + 1}`;
+  if (!isRecord(entry)) throw new Error(`${where} is not an object.`);
+  const target = parseTarget(entry, where);
+  const { targetValue } = entry;
+  if (!isNumber(targetValue)) throw new Error(`${where}: targetValue must be a number.`);
+  return { ...target, targetValue, deadline: optionalNumber(entry, 'deadline', where) };
+};
+
+const parseFailure = (entry: unknown, index: number): ScenarioFailure => {
+  const where = `Failure condition ${index + 1}`;
+  if (!isRecord(entry)) throw new Error(`${where} is not an object.`);
+  const target = parseTarget(entry, where);
+  const below = optionalNumber(entry, 'below', where);
+  const above = optionalNumber(entry, 'above', where);
+  if (below === undefined && above === undefined) throw new Error(`${where}: needs a below or above limit.`);
+  return { ...target, below, above, fromDay: optionalNumber(entry, 'fromDay', where) };
+};
+
+const parseBuildingList = (raw: Entry, key: string): BuildingType[] => {
+  const list: unknown[] = Array.isArray(raw[key]) ? raw[key] : [];
+  const unknown = list.find(type => !isBuilding(type));
+  if (unknown !== undefined) throw new Error(`Unknown building type "${String(unknown)}" in ${key}.`);
+  return list.filter(isBuilding);
+};
+
+export const parseScenario = (raw: unknown): Scenario => {
+  if (!isRecord(raw)) throw new Error('Scenario file is not a JSON object.');
+  const { name, id, description, startingMoney = INITIAL_MONEY } = raw;
+  if (typeof name !== 'string' || !name.trim()) throw new Error('Scenario needs a name.');
+  const map = isRecord(raw.map) ? raw.map : {};
+  const { preset = MAP_PRESETS[0].id, seed = 1 } = map;
+  if (typeof preset !== 'string' || !MAP_PRESETS.some(p => p.id === preset)) {
+    throw new Error(`Unknown map preset "${String(preset)}". Use one of ${MAP_PRESETS.map(p => p.id).join(', ')}.`);
+  }
+  if (!isNumber(seed)) throw new Error('Map seed must be a number.');
+  if (!isNumber(startingMoney)) throw new Error('startingMoney must be a number.');
+  const goals: unknown[] = Array.isArray(raw.goals) ? raw.goals : [];
+  if (goals.length === 0) throw new Error('Scenario needs at least one goal.');
+  const failures: unknown[] = Array.isArray(raw.failures) ? raw.failures : [];
+
+  return {
+    id: typeof id === 'string' ? id : `custom-${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+    name: name.trim(),
+    description: typeof description === 'string' ? description : '',
+    map: { preset, seed },
+    startingMoney,
+    lockedBuildings: parseBuildingList(raw, 'lockedBuildings'),
+    unlockedBuildings: parseBuildingList(raw, 'unlockedBuildings'),
+    goals: goals.map(parseGoal),
+    failures: failures.map(parseFailure),
+  };
+};
+
+// --- Play ---
+
+export const createScenarioState = (scenario: Scenario): SimState => {
+  const initial = createInitialState(scenario.map.seed, getMapPreset(scenario.map.preset).options);
+  return {
+    ...initial,
+    stats: { ...initial.stats, money: scenario.startingMoney },
+    scenario: { scenario, goalsMet: scenario.goals.map(() => null), outcome: 'playing', reason: null },
+  };
+};
+
+export const isBuildingLocked = (state: Pick<SimState, 'scenario'>, type: BuildingType) =>
+  !!state.scenario?.scenario.lockedBuildings.includes(type);
+
+export const scenarioEnded = (state: Pick<SimState, 'scenario'>) => !!state.scenario && state.scenario.outcome !== 'playing';
+
+const failed = (state: SimState, failure: ScenarioFailure) => {
+  if (failure.fromDay && state.stats.day < failure.fromDay) return false;
+  const value = goalProgress(state, failure);
+  return (failure.below !== undefined && value < failure.below) || (failure.above !== undefined && value > failure.above);
+};
+
+// Marks goals as they are reached and decides the scenario once all are met or one is lost
+export const checkScenario = (state: SimState): { state: SimState; notices: SimNotice[] } => {
+  const current = state.scenario;
+  if (!current || current.outcome !== 'playing') return { state, notices: [] };
+  const { scenario } = current;
+  const { day } = state.stats;
+  const notices: SimNotice[] = [];
+
+  const goalsMet = current.goalsMet.map((met, i) => {
+    const goal = scenario.goals[i];
+    if (met !== null || goalProgress(state, goal) < goal.targetValue) return met;
+    if (scenario.goals.length > 1) notices.push({ text: `Scenario goal reached: ${goalText(goal)}.`, type: 'positive' });
+    return day;
+  });
+
+  const missed = scenario.goals.find((goal, i) => goalsMet[i] === null && goal.deadline !== undefined && day > goal.deadline);
+  const failure = scenario.failures.find(f => failed(state, f));
+  const lost = state.bankrupt ? 'The city went bankrupt.'
+    : missed ? `Missed the deadline: ${goalText(missed)}.`
+    : failure ? `Failure condition: ${failureText(failure)}.`
+    : null;
+  const won = !lost && goalsMet.every(met => met !== null);
+  const outcome: ScenarioOutcome = lost ? 'lost' : won ? 'won' : 'playing';
+  const reason = lost ?? (won ? `All goals met on day ${day}.` : null);
+
+  if (outcome === 'won') notices.push({ text: `Scenario complete: ${scenario.name}!`, type: 'positive' });
+  if (outcome === 'lost') notices.push({ text: `Scenario failed. ${reason}`, type: 'negative' });
+  return { state: { ...state, scenario: { ...current, goalsMet, outcome, reason } }, notices };
+};
+
+// Scenario progress from a save; anything that no longer parses drops the city back to free play
+export const restoreScenario = (raw: unknown): ScenarioState | null => {
+  if (!isRecord(raw)) return null;
+  try {
+    const scenario = parseScenario(raw.scenario);
+    const saved: unknown[] = Array.isArray(raw.goalsMet) ? raw.goalsMet : [];
+    const goalsMet = saved.length === scenario.goals.length
+      ? saved.map(met => (isNumber(met) ? met : null))
+      : scenario.goals.map(() => null);
+    const outcome = isOneOf(OUTCOMES, raw.outcome) ? raw.outcome : 'playing';
+    return { scenario, goalsMet, outcome, reason: typeof raw.reason === 'string' ? raw.reason : null };
+  } catch {
+    return null;
+  }
+};
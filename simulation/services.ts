@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BuildingType, Grid, ServiceKind } from '../types';
+import { BUILDINGS, SERVICE_HAPPINESS } from '../constants';
+import { forEachInRadius, tileIndex } from './graph';
+import { buildRoadNetwork, isRoadServed } from './roads';
+
+export const SERVICE_KINDS = Object.keys(SERVICE_HAPPINESS) as ServiceKind[];
+
+// 0..1 for each service on every tile, by tile index
+export type ServiceCoverage = Record<ServiceKind, number[]>;
+
+// Coverage only depends on the map, so it is worked out once per grid
+const coverageCache = new WeakMap<Grid, ServiceCoverage>();
+
+// Full coverage on a service building's own tile, fading to nothing just past its radius.
+// Overlapping buildings of the same kind don't stack: the best one counts. Buildings
+// that need a road cover nothing until they reach the highway.
+export const getServiceCoverage = (grid: Grid): ServiceCoverage => {
+  const cached = coverageCache.get(grid);
+  if (cached) return cached;
+
+  const size = grid.length;
+  const roads = buildRoadNetwork(grid);
+  const coverage = Object.fromEntries(SERVICE_KINDS.map(kind => [kind, new Array(size * size).fill(0)])) as ServiceCoverage;
+  grid.forEach(row => row.forEach(tile => {
+    if (!tile.owned || tile.buildingType === BuildingType.None) return;
+    const { service } = BUILDINGS[tile.buildingType];
+    if (!service || !isRoadServed(roads, grid, tile)) return;
+    const layer = coverage[service.kind];
+    layer[tileIndex(tile.x, tile.y, size)] = 1;
+    forEachInRadius(grid, tile.x, tile.y, service.radius, (other, falloff) => {
+      const index = tileIndex(other.x, other.y, size);
+      layer[index] = Math.max(layer[index], falloff);
+    });
+  }));
+
+  coverageCache.set(grid, coverage);
+  return coverage;
+};
+
+// Mean coverage over every kind of service
+export const averageCoverage = (coverage: ServiceCoverage, index: number) =>
+  SERVICE_KINDS.reduce((sum, kind) => sum + coverage[kind][index], 0) / SERVICE_KINDS.length;
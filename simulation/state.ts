@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Grid, MapOptions, SimState, TileData } from '../types';
+import { DEFAULT_DISASTER_FREQUENCY, INITIAL_MONEY } from '../constants';
+import { DEFAULT_MAP_PRESET, generateMap } from './mapgen';
+import { EMPTY_DEMAND } from './demand';
+import { DEFAULT_TAX_RATES, emptyBudgetReport } from './budget';
+import { EMPTY_ADVISOR } from './advisor';
+import { computeLandValue } from './landValue';
+import { computePollution } from './pollution';
+import { computeHappiness } from './happiness';
+import { computeCivic } from './civic';
+
+export const createInitialState = (seed: number, mapOptions: MapOptions = DEFAULT_MAP_PRESET.options): SimState => {
+  const grid = generateMap(seed, mapOptions);
+  const pollution = computePollution(grid, []);
+  const civic = computeCivic(grid, pollution);
+  return {
+    seed,
+    // Offset from the map seed so the economy does not replay the terrain's random sequence
+    rngState: (seed ^ 0x5bd1e995) >>> 0,
+    tick: 0,
+    grid,
+    stats: { money: INITIAL_MONEY, population: 0, day: 1 },
+    demand: EMPTY_DEMAND,
+    taxRates: DEFAULT_TAX_RATES,
+    budget: { today: emptyBudgetReport(), lastDay: null },
+    advisor: EMPTY_ADVISOR,
+    trains: [],
+    traffic: [],
+    landValue: computeLandValue(grid, [], civic),
+    pollution,
+    happiness: computeHappiness(grid, pollution),
+    civic,
+    events: [],
+    disasters: DEFAULT_DISASTER_FREQUENCY,
+    statsHistory: [],
+    loans: [],
+    daysInRed: 0,
+    bankrupt: false,
+    scenario: null,
+    milestones: [],
+  };
+};
+
+export const inBounds = (grid: Grid, x: number, y: number) => y >= 0 && y < grid.length && x >= 0 && x < grid[y].length;
+
+// Returns a copy of the grid with a single tile replaced
+export const setTile = (grid: Grid, tile: TileData): Grid => {
+  const newGrid = grid.map(row => [...row]);
+  newGrid[tile.y][tile.x] = tile;
+  return newGrid;
+};
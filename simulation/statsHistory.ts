@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BuildingType, DailyStats, Grid } from '../types';
+import { STATS_HISTORY_DAYS } from '../constants';
+
+// Owned buildings of each type; empty tiles and bought land are not buildings
+export const countBuildings = (grid: Grid): DailyStats['buildings'] => {
+  const counts: DailyStats['buildings'] = {};
+  grid.forEach(row => row.forEach(tile => {
+    if (!tile.owned || tile.buildingType === BuildingType.None || tile.buildingType === BuildingType.Land) return;
+    counts[tile.buildingType] = (counts[tile.buildingType] ?? 0) + 1;
+  }));
+  return counts;
+};
+
+export const recordDay = (history: DailyStats[], entry: DailyStats): DailyStats[] =>
+  [...history, entry].slice(-STATS_HISTORY_DAYS);
+
+// Building types that appear anywhere in the history, in toolbar order
+export const recordedBuildingTypes = (history: DailyStats[]): BuildingType[] =>
+  Object.values(BuildingType).filter(type => history.some(entry => (entry.buildings[type] ?? 0) > 0));
+
+// One row per day with a column per building type, for spreadsheets
+export const statsToCsv = (history: DailyStats[]): string => {
+  const types = recordedBuildingTypes(history);
+  const header = ['day', 'money', 'population', 'income', 'expenses', ...types];
+  const rows = history.map(entry => [
+    entry.day,
+    entry.money,
+    entry.population,
+    Math.round(entry.income),
+    Math.round(entry.expenses),
+    ...types.map(type => entry.buildings[type] ?? 0),
+  ]);
+  return [header, ...rows].map(row => row.join(',')).join('\n');
+};
@@ -0,0 +1,178 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BudgetReport, SimNotice, SimState, TickResult } from '../types';
+import { BANKRUPTCY_GRACE_DAYS, BUILDINGS, HEADLINE_CHANCE, RESIDENT_TAX_PER_TICK, TICKS_PER_DAY } from '../constants';
+import { Rng } from './rng';
+import { computeDemand } from './demand';
+import { addToReport, emptyBudgetReport, taxMultiplier, totalExpenses, totalIncome } from './budget';
+import { checkGoal } from './advisor';
+import { advanceTrains } from './rail';
+import { tileCoords, tileIndex } from './graph';
+import { computeTraffic } from './traffic';
+import { computeLandValue } from './landValue';
+import { computePollution } from './pollution';
+import { computeHappiness } from './happiness';
+import { updateDensity } from './density';
+import { computeCivic } from './civic';
+import { eventIncomeMultiplier, rollEvents } from './events';
+import { collectProduction, tileOutput } from './production';
+import { countBuildings, recordDay } from './statsHistory';
+import { collectRepayments, updateSolvency } from './loans';
+import { checkScenario, scenarioEnded } from './scenarios';
+import { checkMilestones } from './milestones';
+
+// Why the simulation has stopped advancing for good, or null while the city still runs
+export const stopReason = (state: SimState): string | null => {
+  if (state.bankrupt) return 'The city went bankrupt.';
+  if (state.scenario && scenarioEnded(state)) return `Scenario ${state.scenario.outcome}. ${state.scenario.reason ?? ''}`.trim();
+  return null;
+};
+
+// Advances the city by one game tick. Pure apart from advancing `rng`;
+// the resulting generator state is written back into the returned SimState.
+export const tick = (state: SimState, rng: Rng): TickResult => {
+  if (stopReason(state)) return { state, notices: [], requestHeadline: false };
+  const notices: SimNotice[] = [];
+  const tickCount = state.tick + 1;
+  const isNewDay = tickCount % TICKS_PER_DAY === 0;
+
+  // 1. Collect producing buildings and the upkeep owed
+  const { producers, supply, upkeep } = collectProduction(state);
+  const size = state.grid.length;
+  const tickBudget: BudgetReport = { income: {}, expenses: { ...upkeep } };
+  const { income, expenses } = tickBudget;
+
+  // Stations only earn fares when a train pulls in
+  const rail = advanceTrains(state.grid, state.trains, rng);
+  const producing = new Set(producers.map(t => tileIndex(t.x, t.y, size)));
+  rail.arrivals.forEach(station => {
+    if (!producing.has(station)) return;
+    const { x, y } = tileCoords(station, size);
+    income.transit = (income.transit ?? 0) + BUILDINGS[state.grid[y][x].buildingType].incomeGen;
+  });
+
+  // 2. Scale output by density level, RCI demand, taxes, traffic, happiness, civic services and booms
+  const prev = state.stats;
+  const traffic = computeTraffic(state.grid, prev.population, state.traffic);
+  const pollution = computePollution(state.grid, traffic);
+  const happiness = computeHappiness(state.grid, pollution);
+  const civic = computeCivic(state.grid, pollution);
+  const { taxRates } = state;
+  const { demand, yields } = computeDemand(supply, prev.population, taxRates);
+  const boost = eventIncomeMultiplier(state.events);
+  let dailyPopGrowth = 0;
+
+  income.residential = prev.population * RESIDENT_TAX_PER_TICK * taxMultiplier(taxRates.residential);
+  const outputContext = { state, yields, traffic, happiness, civic, boost };
+  producers.forEach(tile => {
+    const output = tileOutput(outputContext, tile);
+    if (output.category) income[output.category] = (income[output.category] ?? 0) + output.income;
+    dailyPopGrowth += output.population;
+  });
+
+  // Population can't exceed available housing
+  const maxPop = supply.housing;
+  let newPop = Math.min(prev.population + Math.round(dailyPopGrowth), maxPop);
+  if (supply.housing === 0 && prev.population > 0) newPop = Math.max(0, prev.population - 5); // people leave if no homes
+
+  // 3. Budget: loan instalments fall due once a day; money may go negative when upkeep outruns taxes
+  let loans = state.loans;
+  if (isNewDay && loans.length > 0) {
+    const repaid = collectRepayments(loans);
+    loans = repaid.loans;
+    expenses.loans = repaid.paid;
+    notices.push(...repaid.notices);
+  }
+  const net = Math.round(totalIncome(tickBudget) - totalExpenses(tickBudget));
+  const today = addToReport(state.budget.today, tickBudget);
+  const budget = isNewDay ? { today: emptyBudgetReport(), lastDay: today } : { ...state.budget, today };
+
+  // 4. Buildings grow or shrink a density level once a day
+  let grid = state.grid;
+  if (isNewDay) {
+    const density = updateDensity({ state, demand, producing }, rng);
+    grid = density.grid;
+    notices.push(...density.notices);
+  }
+
+  // 5. Finished events clear; once a day there is a roll for new ones
+  let events = state.events.filter(event => event.endsAt > tickCount);
+  let eventCost = 0;
+  if (isNewDay) {
+    const rolled = rollEvents({ state: { grid, civic, events, disasters: state.disasters }, producing, tick: tickCount }, rng);
+    grid = rolled.grid;
+    events = [...events, ...rolled.events];
+    eventCost = rolled.cost;
+    notices.push(...rolled.notices);
+  }
+
+  // 6. Record the finished day for the charts and check the city can still pay its way
+  // Event damage counts too, so a fire that empties the treasury still raises the warning
+  const money = prev.money + net - eventCost;
+  if (isNewDay && prev.money >= 0 && money < 0) {
+    notices.push({ text: `The treasury is in the red. Raise taxes, cut upkeep or borrow within ${BANKRUPTCY_GRACE_DAYS} days to avoid bankruptcy.`, type: 'negative' });
+  }
+  const solvency = isNewDay ? updateSolvency(state.daysInRed, money) : { daysInRed: state.daysInRed, bankrupt: false, notices: [] };
+  notices.push(...solvency.notices);
+  const statsHistory = isNewDay
+    ? recordDay(state.statsHistory, {
+      day: prev.day,
+      money,
+      population: newPop,
+      income: totalIncome(today),
+      expenses: totalExpenses(today),
+      buildings: countBuildings(grid),
+    })
+    : state.statsHistory;
+
+  // 7. Roll for a news headline
+  const requestHeadline = rng.next() < HEADLINE_CHANCE;
+
+  // 8. Pay out the advisor goal once it is met
+  const advised = checkGoal({
+    ...state,
+    grid,
+    tick: tickCount,
+    rngState: rng.state,
+    demand,
+    budget,
+    trains: rail.trains,
+    traffic,
+    landValue: isNewDay ? computeLandValue(grid, traffic, civic) : state.landValue, // After density and fires
+    pollution,
+    happiness,
+    civic,
+    events,
+    statsHistory,
+    loans,
+    daysInRed: solvency.daysInRed,
+    bankrupt: solvency.bankrupt,
+    stats: {
+      money,
+      population: newPop,
+      day: isNewDay ? prev.day + 1 : prev.day,
+    },
+  });
+  notices.push(...advised.notices);
+
+  // 9. Milestones pay out and unlock tools
+  const grown = checkMilestones(advised.state);
+  notices.push(...grown.notices);
+
+  // 10. Mark scenario goals and decide a win or loss
+  const scored = checkScenario(grown.state);
+  notices.push(...scored.notices);
+
+  return { state: scored.state, notices, requestHeadline };
+};
+
+// Convenience for headless runs: advances whole days at a time
+export const runDays = (state: SimState, rng: Rng, days: number): SimState => {
+  let current = state;
+  for (let i = 0; i < days * TICKS_PER_DAY && !stopReason(current); i++) {
+    current = tick(current, rng).state;
+  }
+  return current;
+};
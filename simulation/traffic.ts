@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Grid, TileData } from '../types';
+import { BUILDINGS, COMMUTER_SHARE, CONGESTION_ROUTE_PENALTY, CONGESTION_ROUTE_STEPS, ROAD_CAPACITY, TRIP_DESTINATIONS } from '../constants';
+import { findPathAStar, forEachNeighbor, tileIndex } from './graph';
+import { RoadNetwork, buildRoadNetwork, isRoadTile } from './roads';
+
+export interface TripRoute {
+  home: number; // Tile index of the house
+  destination: number; // Tile index of the job or shop
+  path: number[]; // Road tiles from the house's road to the destination's road
+  share: number; // Fraction of the home's commuters taking this route
+}
+
+// First highway-linked road next to a tile, in neighbour order
+const accessRoad = (network: RoadNetwork, grid: Grid, tile: TileData) => {
+  let road: number | null = null;
+  forEachNeighbor(grid, tile.x, tile.y, n => {
+    const index = tileIndex(n.x, n.y, grid.length);
+    if (road === null && network.connected.has(index)) road = index;
+  });
+  return road as number | null;
+};
+
+// 0 while a road is within capacity, 1 once it carries twice its capacity
+export const congestionLevel = (cars: number) => Math.min(1, Math.max(0, (cars - ROAD_CAPACITY) / ROAD_CAPACITY));
+
+// Congestion per road tile in steps of 1 / CONGESTION_ROUTE_STEPS; only congested tiles are listed
+const congestionSteps = (traffic: number[]) => {
+  const steps = new Map<number, number>();
+  traffic.forEach((cars, index) => {
+    const step = Math.round(congestionLevel(cars) * CONGESTION_ROUTE_STEPS);
+    if (step > 0) steps.set(index, step);
+  });
+  return steps;
+};
+
+// Routes depend on the map and the rounded congestion, so each grid keeps the routes for the
+// last congestion pattern it saw and reroutes only when that pattern changes
+const routeCache = new WeakMap<Grid, { key: string; routes: TripRoute[] }>();
+
+// Every home sends its commuters to its nearest jobs and shops, routed with A*.
+// Jammed roads from the previous tick cost extra, so trips spread onto quieter streets.
+export const getTripRoutes = (grid: Grid, traffic: number[] = []): TripRoute[] => {
+  const steps = congestionSteps(traffic);
+  const key = [...steps].map(([index, step]) => `${index}:${step}`).join(',');
+  const cached = routeCache.get(grid);
+  if (cached?.key === key) return cached.routes;
+  const stepCost = (node: number) => 1 + CONGESTION_ROUTE_PENALTY * (steps.get(node) ?? 0) / CONGESTION_ROUTE_STEPS;
+
+  const network = buildRoadNetwork(grid);
+  const homes: { tile: TileData; road: number }[] = [];
+  const destinations: { tile: TileData; road: number }[] = [];
+  grid.forEach(row => row.forEach(tile => {
+    if (!tile.owned) return;
+    const { zone } = BUILDINGS[tile.buildingType];
+    if (zone !== 'residential' && zone !== 'commercial' && zone !== 'industrial') return;
+    const road = accessRoad(network, grid, tile);
+    if (road === null) return;
+    (zone === 'residential' ? homes : destinations).push({ tile, road });
+  }));
+
+  const routes: TripRoute[] = [];
+  homes.forEach(({ tile, road }) => {
+    const nearest = [...destinations]
+      .sort((a, b) => (Math.abs(a.tile.x - tile.x) + Math.abs(a.tile.y - tile.y)) - (Math.abs(b.tile.x - tile.x) + Math.abs(b.tile.y - tile.y)))
+      .slice(0, TRIP_DESTINATIONS);
+    const trips = nearest
+      .map(dest => ({ destination: tileIndex(dest.tile.x, dest.tile.y, grid.length), path: findPathAStar(network.graph, road, dest.road, stepCost) }))
+      .filter((trip): trip is { destination: number; path: number[] } => trip.path !== null);
+    const home = tileIndex(tile.x, tile.y, grid.length);
+    trips.forEach(({ destination, path }) => routes.push({ home, destination, path, share: 1 / trips.length }));
+  });
+
+  routeCache.set(grid, { key, routes });
+  return routes;
+};
+
+// Cars on each road tile, by tile index, routed around last tick's jams.
+// Residents are spread evenly over the homes that have routes.
+export const computeTraffic = (grid: Grid, population: number, lastTraffic: number[] = []): number[] => {
+  const load = new Array(grid.length * grid.length).fill(0);
+  const routes = getTripRoutes(grid, lastTraffic);
+  const homeCount = new Set(routes.map(r => r.home)).size;
+  if (homeCount === 0 || population <= 0) return load;
+
+  const commutersPerHome = (population / homeCount) * COMMUTER_SHARE;
+  routes.forEach(route => route.path.forEach(node => { load[node] += commutersPerHome * route.share; }));
+  return load.map(Math.round);
+};
+
+// Worst congestion on the roads next to a tile
+export const congestionNear = (grid: Grid, traffic: number[], x: number, y: number) => {
+  let worst = 0;
+  forEachNeighbor(grid, x, y, n => {
+    if (isRoadTile(n)) worst = Math.max(worst, congestionLevel(traffic[tileIndex(n.x, n.y, grid.length)] ?? 0));
+  });
+  return worst;
+};
@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BuildingType, Grid, TileData, Utility } from '../types';
+import { BUILDINGS } from '../constants';
+import { buildTileGraph, floodFrom, tileCoords, tileIndex } from './graph';
+import { levelScale } from './levels';
+
+export const UTILITIES: Utility[] = ['power', 'water'];
+
+export interface UtilityNetwork {
+  supply: number; // Total capacity of every plant or pump, connected or not
+  demand: number; // Total need of every consumer, connected or not
+  served: Set<number>; // Tile indices of consumers that get what they need
+}
+
+export type UtilityReport = Record<Utility, UtilityNetwork>;
+
+// Lines and pipes carry one utility each. Every other building, roads
+// included (cables and mains run under the street), carries both.
+const carries = (tile: TileData, utility: Utility) =>
+  tile.owned && tile.buildingType !== BuildingType.None && (BUILDINGS[tile.buildingType].carries?.includes(utility) ?? true);
+
+const capacity = (tile: TileData, utility: Utility) => (tile.owned ? BUILDINGS[tile.buildingType].supplies?.[utility] ?? 0 : 0);
+
+export const utilityNeed = (tile: TileData, utility: Utility) =>
+  tile.owned ? (BUILDINGS[tile.buildingType].consumes?.[utility] ?? 0) * levelScale(tile) : 0;
+
+// Each connected group of carriers shares the capacity of its own plants.
+// Consumers nearest a plant are served first until the capacity runs out.
+const buildNetwork = (grid: Grid, utility: Utility): UtilityNetwork => {
+  const size = grid.length;
+  const graph = buildTileGraph(grid, tile => carries(tile, utility));
+  const tileAt = (index: number) => {
+    const { x, y } = tileCoords(index, size);
+    return grid[y][x];
+  };
+  const visited = new Set<number>();
+  const served = new Set<number>();
+  let supply = 0;
+  let demand = 0;
+
+  graph.nodes.forEach(node => {
+    if (visited.has(node)) return;
+    const group = [...floodFrom(graph, [node])];
+    group.forEach(index => visited.add(index));
+
+    const sources = group.filter(index => capacity(tileAt(index), utility) > 0);
+    let remaining = sources.reduce((sum, index) => sum + capacity(tileAt(index), utility), 0);
+    supply += remaining;
+    group.forEach(index => { demand += utilityNeed(tileAt(index), utility); });
+
+    // Flooding from the plants visits the group in order of distance
+    floodFrom(graph, sources).forEach(index => {
+      const need = utilityNeed(tileAt(index), utility);
+      if (need <= 0 || need > remaining) return;
+      remaining -= need;
+      served.add(index);
+    });
+  });
+
+  return { supply, demand, served };
+};
+
+// Networks only depend on the map, so they are worked out once per grid
+const reportCache = new WeakMap<Grid, UtilityReport>();
+
+export const getUtilities = (grid: Grid): UtilityReport => {
+  const cached = reportCache.get(grid);
+  if (cached) return cached;
+  const report = Object.fromEntries(UTILITIES.map(utility => [utility, buildNetwork(grid, utility)])) as UtilityReport;
+  reportCache.set(grid, report);
+  return report;
+};
+
+// Utilities a building needs but isn't getting
+export const missingUtilities = (report: UtilityReport, grid: Grid, tile: TileData): Utility[] =>
+  UTILITIES.filter(utility => utilityNeed(tile, utility) > 0 && !report[utility].served.has(tileIndex(tile.x, tile.y, grid.length)));
@@ -15,6 +15,30 @@ export enum BuildingType {
   Rail = 'Rail',
   TrainStation = 'TrainStation',
   Bridge = 'Bridge',
+  PowerPlant = 'PowerPlant',
+  PowerLine = 'PowerLine',
+  WaterPump = 'WaterPump',
+  WaterPipe = 'WaterPipe',
+  PoliceStation = 'PoliceStation',
+  FireStation = 'FireStation',
+  Clinic = 'Clinic',
+  School = 'School',
+  Upgrade = 'Upgrade',
+  Inspect = 'Inspect',
+}
+
+export type Zone = 'residential' | 'commercial' | 'industrial';
+
+export type ZoneDemand = Record<Zone, number>; // -1 (over-zoned) to 1 (wanted)
+
+export type IncomeCategory = Zone | 'transit' | 'other';
+export type ExpenseCategory = 'zones' | 'roads' | 'transit' | 'parks' | 'utilities' | 'services' | 'loans';
+
+export type Utility = 'power' | 'water';
+
+export interface BudgetReport {
+  income: Partial<Record<IncomeCategory, number>>;
+  expenses: Partial<Record<ExpenseCategory, number>>;
 }
 
 export interface BuildingConfig {
@@ -24,7 +48,38 @@ export interface BuildingConfig {
   description: string;
   color: string; // Main color for 3D material
   popGen: number; // Population generation per tick
-  incomeGen: number; // Money generation per tick
+  incomeGen: number; // Money generation per tick, at the default tax rate
+  incomeOnArrival?: boolean; // incomeGen is a fare paid per train arrival instead of per tick
+  upkeep: number; // Maintenance cost per tick
+  budgetCategory?: ExpenseCategory; // Where upkeep shows up in the budget
+  needsRoad?: boolean; // Only produces when next to a road linked to the highway
+  zone?: Zone; // Output scales with demand for this zone
+  housing?: number; // Residents this building can hold
+  jobs?: number; // Workers this building employs
+  densifies?: boolean; // Grows through DENSITY_LEVELS and can be upgraded
+  supplies?: Partial<Record<Utility, number>>; // Capacity fed into the connected network
+  consumes?: Partial<Record<Utility, number>>; // Needed to produce, scaled by density level
+  carries?: Utility[]; // Utilities passed on to neighbours. Any other building carries them all.
+  fireHazard?: number; // Multiplier on the building's fire risk
+  pollution?: Pollution; // Emitted at the building's own tile, fading with distance
+  service?: { kind: ServiceKind; radius: number }; // Covers tiles within this Manhattan distance
+}
+
+// 0 (none) to 1 (unbearable)
+export interface Pollution {
+  air: number;
+  noise: number;
+}
+
+export type ServiceKind = 'park' | 'transit' | 'police' | 'fire' | 'health' | 'education';
+
+// Per-tile conditions driven by civic service coverage, each 0 to 1
+export type CivicMetric = 'crime' | 'fireRisk' | 'health' | 'education';
+
+export interface DensityLevel {
+  output: number; // Multiplier on popGen, incomeGen, housing and jobs
+  landValue: number; // Land value multiplier needed to grow into this level
+  coverage: number; // Average service coverage needed to grow into this level
 }
 
 export interface TileData {
@@ -33,31 +88,252 @@ export interface TileData {
   buildingType: BuildingType;
   // Suggested by AI for visual variety later
   variant?: number;
+  level?: number; // Density level, 1 when missing
+  paidLevel?: number; // Highest level bought with an upgrade; density never drops below it
   owned: boolean;
   isWater: boolean;
   isRail: boolean; // Kept for legacy compatibility or special terrain rendering
   landPrice?: number; // Price to buy this specific plot
+  isHighway?: boolean; // Public road laid by the map generator; links the city to the outside
 }
 
 export type Grid = TileData[][];
 
+// --- Map Generation ---
+
+export type Coastline = 'none' | 'north' | 'south' | 'east' | 'west' | 'island';
+
+export interface LandPriceCurve {
+  base: number;
+  variance: number; // Random extra on top of base, 0..variance
+  distanceRate: number; // Price added per tile of distance from the starting plot
+  exponent: number; // 1 = linear with distance, >1 = prices climb faster toward the edges
+  waterfrontBonus: number; // Extra for plots next to water
+}
+
+export interface MapOptions {
+  size: number;
+  rivers: number;
+  riverWidth: number;
+  riverBranches: number; // >1 fans each river out into a delta toward the coast
+  lakes: number;
+  coastline: Coastline;
+  startPlot: { anchor: 'center' | 'random'; size: number };
+  landPrice: LandPriceCurve;
+}
+
+export interface MapPreset {
+  id: string;
+  name: string;
+  description: string;
+  options: MapOptions;
+}
+
 export interface CityStats {
   money: number;
   population: number;
   day: number;
 }
 
+// What a goal measures; building counts name the type in `buildingType`
+export type GoalMetric = 'population' | 'money' | 'building_count';
+
 export interface AIGoal {
   description: string;
-  targetType: 'population' | 'money' | 'building_count';
+  targetType: GoalMetric;
   targetValue: number;
   buildingType?: BuildingType; // If target is building_count
   reward: number;
   completed: boolean;
 }
 
+export interface CompletedGoal extends AIGoal {
+  completedDay: number;
+}
+
+export interface AdvisorState {
+  goal: AIGoal | null; // null while waiting for the advisor to suggest one
+  completedGoals: CompletedGoal[];
+}
+
+export type AIProviderId = 'gemini' | 'openai' | 'offline';
+
+export interface AISettings {
+  provider: AIProviderId;
+  gemini: { model: string }; // The key always comes from GEMINI_API_KEY
+  openai: { baseUrl: string; model: string; apiKey: string }; // Any OpenAI-compatible server, e.g. a local one
+}
+
+export type GameSpeed = 0 | 1 | 2 | 4; // Multiplier on the game clock; 0 is paused
+
 export interface NewsItem {
   id: string;
   text: string;
   type: 'positive' | 'negative' | 'neutral';
-}
\ No newline at end of file
+}
+// --- Simulation ---
+
+export interface Train {
+  id: number;
+  route: number[]; // Tile indices from the departure station to the destination station
+  progress: number; // Tiles travelled along the route
+}
+
+// Random city events. Floods, fires and accidents are disasters; a boom is good news.
+export type CityEventKind = 'flood' | 'fire' | 'accident' | 'boom';
+export type DisasterFrequency = 'off' | 'rare' | 'normal' | 'frequent';
+
+export interface CityEvent {
+  kind: CityEventKind;
+  tiles: number[]; // Affected tile indices
+  endsAt: number; // Tick the event clears
+}
+
+// A short bank loan or a longer city bond, repaid in equal daily instalments
+export type LoanTerm = 'loan' | 'bond';
+
+export interface Loan {
+  id: number;
+  term: LoanTerm;
+  principal: number; // Amount borrowed
+  balance: number; // Still owed, interest included
+  payment: number; // Daily instalment
+}
+
+// End-of-day snapshot kept for the charts panel and CSV export
+export interface DailyStats {
+  day: number;
+  money: number;
+  population: number;
+  income: number;
+  expenses: number;
+  buildings: Partial<Record<BuildingType, number>>; // Owned buildings by type
+}
+
+// Population or daily income tiers that unlock tools as the city grows
+export type MilestoneMetric = 'population' | 'income';
+
+export interface Milestone {
+  id: string;
+  name: string;
+  metric: MilestoneMetric;
+  value: number;
+  unlocks: BuildingType[];
+  reward: number;
+}
+
+// A scenario fixes the map, starting money and available buildings, and ends in a win or a loss
+export interface ScenarioGoal {
+  description?: string; // Generated from the target when left out
+  targetType: GoalMetric;
+  targetValue: number;
+  buildingType?: BuildingType; // If target is building_count
+  deadline?: number; // Last day to reach the target
+}
+
+export interface ScenarioFailure {
+  description?: string;
+  targetType: GoalMetric;
+  buildingType?: BuildingType;
+  below?: number; // Lost once the value drops under this
+  above?: number; // Lost once the value climbs over this
+  fromDay?: number; // Only checked from this day on
+}
+
+export interface Scenario {
+  id: string;
+  name: string;
+  description: string;
+  map: { preset: string; seed: number };
+  startingMoney: number;
+  lockedBuildings: BuildingType[];
+  unlockedBuildings: BuildingType[]; // Available from day 1 whatever their milestone
+  goals: ScenarioGoal[]; // All must be met to win
+  failures: ScenarioFailure[]; // Any one loses; bankruptcy always does
+}
+
+export type ScenarioOutcome = 'playing' | 'won' | 'lost';
+
+export interface ScenarioState {
+  scenario: Scenario; // Kept whole so saves of custom scenarios still load
+  goalsMet: (number | null)[]; // Day each goal was reached, by goal index
+  outcome: ScenarioOutcome;
+  reason: string | null; // What won or lost the scenario
+}
+
+export interface SimState {
+  seed: number;
+  rngState: number; // Stored after every tick so a saved city resumes the same random sequence
+  tick: number;
+  grid: Grid;
+  stats: CityStats;
+  demand: ZoneDemand;
+  taxRates: Record<Zone, number>; // Percent
+  budget: { today: BudgetReport; lastDay: BudgetReport | null };
+  advisor: AdvisorState;
+  trains: Train[];
+  traffic: number[]; // Cars on each road tile last tick, by tile index
+  landValue: number[]; // Price of each tile, by tile index, refreshed daily
+  pollution: { air: number[]; noise: number[] }; // 0..1 on each tile, by tile index
+  happiness: number[]; // 0..1 on each tile, by tile index
+  civic: Record<CivicMetric, number[]>; // 0..1 on each tile, by tile index
+  events: CityEvent[]; // Events still in progress
+  disasters: DisasterFrequency;
+  statsHistory: DailyStats[]; // One entry per finished day, oldest first
+  loans: Loan[];
+  daysInRed: number; // Days in a row the treasury has ended below zero
+  bankrupt: boolean; // Game over; the simulation stops advancing
+  scenario: ScenarioState | null; // null in free play
+  milestones: string[]; // Ids of milestones reached
+}
+
+export type MapOverlay = 'none' | 'traffic' | 'landValue' | 'pollution' | 'happiness' | 'coverage';
+
+// How a map overlay is coloured: values from 0 to 1 run between two HSL hues
+export interface MapOverlayConfig {
+  label: string;
+  low: string; // Legend text for 0
+  high: string; // Legend text for 1
+  hues: [number, number];
+}
+
+export interface GridPoint {
+  x: number;
+  y: number;
+}
+
+export type TileAction =
+  | { type: 'build'; x: number; y: number; building: BuildingType }
+  | { type: 'bulldoze'; x: number; y: number }
+  | { type: 'buyLand'; x: number; y: number }
+  | { type: 'sellLand'; x: number; y: number }
+  | { type: 'upgrade'; x: number; y: number };
+
+// Click-and-drag placement: a path for roads and rail, a rectangle for everything else
+export type DragAction = { type: 'drag'; tool: BuildingType; from: GridPoint; to: GridPoint };
+
+export type SimAction =
+  | TileAction
+  | DragAction
+  | { type: 'setGoal'; goal: AIGoal }
+  | { type: 'setTaxRate'; zone: Zone; rate: number }
+  | { type: 'setDisasters'; frequency: DisasterFrequency }
+  | { type: 'takeLoan'; term: LoanTerm; amount: number }
+  | { type: 'repayLoan'; id: number };
+
+export interface SimNotice {
+  text: string;
+  type: NewsItem['type'];
+}
+
+export interface ActionResult {
+  state: SimState;
+  applied: boolean;
+  notices: SimNotice[];
+}
+
+export interface TickResult {
+  state: SimState;
+  notices: SimNotice[];
+  requestHeadline: boolean; // Roll for an AI news headline this tick
+}